@@ -0,0 +1,81 @@
+import { promises as fs } from "fs";
+import { dirname } from "path";
+import type { ApiToken, AuditActor, AuditEntry } from "./types.js";
+import { logger } from "./logger.js";
+
+/**
+ * Identifica o autor de uma edição sem expor o token completo
+ */
+export function describeActor(
+  token: ApiToken | undefined,
+  author: unknown,
+  remoteAddress: string | undefined
+): AuditActor {
+  const actor: AuditActor = { role: token?.role ?? "anonymous" };
+  if (token) actor.token = `…${token.token.slice(-4)}`;
+  if (typeof author === "string" && author.trim() !== "") {
+    actor.author = author.trim();
+  }
+  if (remoteAddress) actor.remoteAddress = remoteAddress;
+  return actor;
+}
+
+/**
+ * Log de auditoria append-only em NDJSON (uma entrada por linha)
+ */
+export class AuditLog {
+  private filepath: string;
+
+  constructor(filepath: string) {
+    this.filepath = filepath;
+  }
+
+  /**
+   * Acrescenta uma entrada ao log
+   */
+  async append(entry: Omit<AuditEntry, "timestamp">): Promise<AuditEntry> {
+    const stamped: AuditEntry = {
+      timestamp: new Date().toISOString(),
+      ...entry,
+    };
+
+    await fs.mkdir(dirname(this.filepath), { recursive: true });
+    await fs.appendFile(this.filepath, JSON.stringify(stamped) + "\n", "utf-8");
+
+    logger.info(`📝 Auditoria: ${entry.action}`, {
+      event: entry.event,
+      pilot: entry.pilot,
+      actor: entry.actor,
+    });
+
+    return stamped;
+  }
+
+  /**
+   * Lê as entradas mais recentes (opcionalmente de um evento)
+   */
+  async read(filter: { event?: string; limit: number }): Promise<AuditEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filepath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry: AuditEntry = JSON.parse(line);
+        if (filter.event === undefined || entry.event === filter.event) {
+          entries.push(entry);
+        }
+      } catch {
+        logger.warn("Linha inválida no log de auditoria ignorada");
+      }
+    }
+
+    return entries.slice(-filter.limit);
+  }
+}
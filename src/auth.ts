@@ -0,0 +1,94 @@
+import { timingSafeEqual } from "crypto";
+import type { IncomingMessage } from "http";
+import type { ApiToken, AuthRole } from "./types.js";
+
+/**
+ * Resultado de uma verificação de acesso
+ * `token` fica indefinido quando a autenticação está desabilitada
+ */
+export type AuthResult =
+  | { ok: true; token?: ApiToken }
+  | { ok: false; status: 401 | 403; reason: string };
+
+/**
+ * Verifica tokens de API e papéis de acesso
+ * Sem tokens configurados, todas as requisições são permitidas
+ */
+export class Authenticator {
+  private tokens: ApiToken[];
+
+  constructor(tokens: ApiToken[]) {
+    this.tokens = tokens;
+  }
+
+  /**
+   * Indica se a autenticação está ativa
+   */
+  get enabled(): boolean {
+    return this.tokens.length > 0;
+  }
+
+  /**
+   * Verifica se a requisição possui um token com um dos papéis permitidos
+   * O papel admin tem acesso a todas as rotas
+   */
+  authorize(
+    req: IncomingMessage,
+    query: Record<string, string | string[] | undefined>,
+    allowedRoles: AuthRole[]
+  ): AuthResult {
+    if (!this.enabled) return { ok: true };
+
+    const provided = this.extractToken(req, query);
+    if (!provided) {
+      return { ok: false, status: 401, reason: "Token não informado" };
+    }
+
+    const token = this.findToken(provided);
+    if (!token) {
+      return { ok: false, status: 401, reason: "Token inválido" };
+    }
+
+    if (token.role !== "admin" && !allowedRoles.includes(token.role)) {
+      return {
+        ok: false,
+        status: 403,
+        reason: `Papel '${token.role}' sem permissão (requer: ${allowedRoles.join(", ")})`,
+      };
+    }
+
+    return { ok: true, token };
+  }
+
+  /**
+   * Obtém o token do header Authorization (Bearer) ou do parâmetro ?token=
+   * Browsers não permitem headers customizados em WebSocket, daí a query
+   */
+  private extractToken(
+    req: IncomingMessage,
+    query: Record<string, string | string[] | undefined>
+  ): string | undefined {
+    const header = req.headers.authorization;
+    if (header && header.startsWith("Bearer ")) {
+      return header.slice("Bearer ".length).trim();
+    }
+
+    const queryToken = Array.isArray(query.token) ? query.token[0] : query.token;
+    return queryToken || undefined;
+  }
+
+  /**
+   * Procura o token configurado usando comparação em tempo constante
+   */
+  private findToken(provided: string): ApiToken | undefined {
+    const providedBuf = Buffer.from(provided);
+
+    return this.tokens.find((t) => {
+      const expectedBuf = Buffer.from(t.token);
+      return (
+        expectedBuf.length === providedBuf.length &&
+        timingSafeEqual(expectedBuf, providedBuf)
+      );
+    });
+  }
+}
@@ -1,251 +1,1666 @@
 import { promises as fs } from "fs";
-import { join, dirname } from "path";
+import { join, dirname, resolve } from "path";
 import { fileURLToPath } from "url";
 import chokidar from "chokidar";
-import type { RawSimulatorData } from "./types.js";
+import type {
+  RawSimulatorData,
+  SectorCompletion,
+  Leaderboard,
+  LeaderboardEntry,
+  LeaderboardQuery,
+  LeaderboardChange,
+  LeaderboardCombination,
+  EventMetadata,
+  EventStatus,
+  EventSummary,
+  EventResults,
+  StorageBackend,
+} from "./types.js";
 import { logger } from "./logger.js";
+import { JsonEventStorage } from "./event-storage.js";
+import type { EventStorage, BackupPolicy } from "./event-storage.js";
+import { SqliteEventStorage } from "./sqlite-event-storage.js";
+import { EventJournal } from "./journal.js";
+import type { JournalEntry } from "./journal.js";
+import {
+  rankRecords,
+  recordKey,
+  listCombinations,
+  DEFAULT_LEADERBOARD_LIMIT,
+} from "./leaderboard.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-// Diretório de dados (um nível acima de src/)
-const DATA_DIR = join(__dirname, "..", "data");
+// Diretório de dados (padrão: um nível acima de src/)
+export const DATA_DIR = process.env.DATA_DIR
+  ? resolve(process.env.DATA_DIR)
+  : join(__dirname, "..", "data");
+const BACKUP_DIR = join(DATA_DIR, "backups");
+export const DEFAULT_SQLITE_PATH = join(DATA_DIR, "events.sqlite");
+
+const journal = new EventJournal(join(DATA_DIR, "journal"));
 
 // Cache em memória para evitar leituras/escritas excessivas
 const eventCache = new Map<string, EventData>();
 const pendingWrites = new Map<string, NodeJS.Timeout>();
+// Última gravação enfileirada de cada evento (gravações em série, por arquivo)
+const writeChains = new Map<string, Promise<void>>();
 const lastProcessedLap = new Map<string, { lap: number; timestamp: number }>();
+const lapProgress = new Map<number, LapProgress>();
+const sectorProgress = new Map<number, SectorProgress>();
+// Evento ativo (undefined = ainda não procurado nos arquivos)
+let activeEventName: string | null | undefined;
+// Arquivos de evento ilegíveis (por nome de arquivo): nunca são sobrescritos
+const corruptEvents = new Map<string, CorruptEventFile>();
+// Edições manuais auditadas em andamento (por nome de arquivo): dados
+// recebidos esperam a edição terminar para ela ser aplicada ao mesmo
+// estado que foi auditado
+const pendingEdits = new Map<string, Promise<unknown>>();
+// Maior seq já presente no journal de cada evento (por nome de arquivo)
+// Sobrevive a reloads: o arquivo recarregado pode ter um journalSeq menor
+const journalSeqs = new Map<string, number>();
+
+// Configurações de throttling
+const WRITE_DEBOUNCE_MS = 5000; // Espera 5s antes de salvar
+const MIN_PROCESS_INTERVAL_MS = 5000; // Mínimo 5s entre processamentos do mesmo piloto
+
+// Backups rotativos de cada arquivo de evento (ou do banco SQLite)
+const BACKUP_POLICY: BackupPolicy = {
+  dir: BACKUP_DIR,
+  intervalMs: 10 * 60 * 1000, // No máximo um backup a cada 10min
+  maxBackups: 5, // Backups mantidos por evento
+};
+
+// Armazenamento dos eventos (JSON até initStorage ser chamado)
+let storage: EventStorage<EventData> = new JsonEventStorage<EventData>(
+  DATA_DIR,
+  BACKUP_POLICY
+);
+
+// Evento usado quando o simulador não informa "event"
+export const DEFAULT_EVENT_NAME = "default-event";
+
+const DEFAULT_EVENT_SETTINGS: EventSettings = { countInvalidLaps: false };
+
+// Versão atual do formato do arquivo de evento
+// 1 (ou ausente): pilots indexado pelo nome do piloto
+// 2: pilots indexado por piloto + pista + carro (recordKey)
+const EVENT_SCHEMA_VERSION = 2;
+
+const INVALID_LAP_REASON =
+  "Volta marcada como inválida pelo simulador (lapData.isValid = false)";
+
+/**
+ * Estrutura de registro de melhor volta
+ */
+interface BestLapRecord {
+  pilotName: string;
+  bestLapTime: number;
+  car: string;
+  track: string;
+  timestamp: string;
+  simNum: number;
+  isValid?: boolean; // false = volta inválida contada por configuração do evento
+  invalidReason?: string;
+  override?: BestLapOverride;
+}
+
+/**
+ * Correção manual de uma melhor volta (PUT /events/:event/pilots/:pilot/best-lap)
+ */
+interface BestLapOverride {
+  reason: string;
+  previousBestLapTime: number;
+  // Tempo que o simulador reportava na primeira correção (mantido entre correções)
+  reportedBestLapTime?: number;
+  at: string;
+}
+
+/**
+ * Registro removido via API (DELETE /events/:event/pilots/:pilot)
+ * O simulador continua reportando o mesmo bestLap, que não deve recriá-lo
+ */
+interface DeletedRecord {
+  pilotName: string;
+  track: string;
+  car: string;
+  bestLapTime: number; // Tempo que o simulador reportava na remoção
+  at: string;
+}
+
+/**
+ * Configurações de um evento
+ */
+interface EventSettings {
+  countInvalidLaps: boolean; // Voltas inválidas podem ser melhor volta
+}
+
+/**
+ * Registro de uma volta completada
+ */
+interface LapRecord {
+  lapNumber: number;
+  lapTime: number;
+  sectorTimes: number[];
+  isValid: boolean;
+  car: string;
+  track: string;
+  simNum: number;
+  timestamp: string;
+}
+
+/**
+ * Estrutura do arquivo de evento
+ */
+interface EventData {
+  schemaVersion?: number;
+  eventName: string;
+  createdAt: string;
+  lastUpdated: string;
+  pilots: Record<string, BestLapRecord>; // Indexado por recordKey (piloto + pista + carro)
+  status?: EventStatus; // Ausente = "open"
+  active?: boolean;
+  metadata?: EventMetadata;
+  closedAt?: string;
+  archivedAt?: string;
+  laps?: Record<string, LapRecord[]>; // Histórico de voltas por piloto
+  settings?: EventSettings;
+  invalidLaps?: Record<string, BestLapRecord[]>; // Melhores voltas inválidas descartadas, por piloto
+  pilotSectors?: Record<string, PilotSectors>; // Melhores setores por piloto
+  overallBestSectors?: (SectorRecord | null)[]; // Melhores setores do evento, por índice
+  sectorCount?: number; // Setores por volta (conhecido após uma volta completa)
+  aliases?: Record<string, string>; // Nomes renomeados → nome atual do piloto
+  deletedRecords?: Record<string, DeletedRecord>; // Removidos via API, por recordKey
+  journalSeq?: number; // Última entrada do journal aplicada a estes dados
+}
+
+/**
+ * Arquivo de evento que não pôde ser lido
+ */
+export interface CorruptEventFile {
+  file: string;
+  error: string;
+  detectedAt: string;
+}
+
+/**
+ * Melhor tempo de um setor no evento
+ */
+interface SectorRecord {
+  time: number;
+  pilotName: string;
+  car: string;
+  simNum: number;
+  timestamp: string;
+}
+
+/**
+ * Melhores setores de um piloto e volta teórica
+ */
+interface PilotSectors {
+  bestSectors: (number | null)[]; // Por índice de setor
+  theoreticalBest?: number; // Soma dos melhores setores (quando todos conhecidos)
+}
+
+/**
+ * Últimos setores vistos de cada simulador (para detectar setores completados)
+ */
+interface SectorProgress {
+  pilotName: string;
+  eventName: string;
+  sectors: number[];
+}
+
+/**
+ * Última volta vista de cada simulador (para detectar voltas completadas)
+ */
+interface LapProgress {
+  pilotName: string;
+  eventName: string;
+  currentLap: number;
+}
+
+/**
+ * Gera nome de arquivo seguro a partir do nome do evento
+ */
+function sanitizeEventName(eventName: string): string {
+  return eventName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/**
+ * Atualiza dados de evento lidos do disco para o formato atual
+ * Retorna true se algo foi alterado
+ */
+function migrateEventData(data: EventData): boolean {
+  if ((data.schemaVersion ?? 1) >= EVENT_SCHEMA_VERSION) return false;
+
+  const pilots: Record<string, BestLapRecord> = {};
+  for (const record of Object.values(data.pilots ?? {})) {
+    pilots[recordKey(record.pilotName, record.track, record.car)] = record;
+  }
+
+  data.pilots = pilots;
+  data.schemaVersion = EVENT_SCHEMA_VERSION;
+  return true;
+}
+
+/**
+ * Carrega dados de um evento (com cache)
+ */
+async function loadEventData(eventName: string): Promise<EventData | null> {
+  // Verificar cache primeiro
+  if (eventCache.has(eventName)) {
+    return eventCache.get(eventName)!;
+  }
+
+  // Procurar pelo nome equivalente (ex: "etapa-1" vindo da URL para "Etapa 1"),
+  // evitando duas cópias do mesmo evento no cache
+  const filename = sanitizeEventName(eventName);
+  for (const [cachedName, cached] of eventCache.entries()) {
+    if (sanitizeEventName(cachedName) === filename) return cached;
+  }
+
+  // Arquivo corrompido: não ler de novo até um reload
+  if (corruptEvents.has(filename)) return null;
+
+  const result = await storage.load(filename);
+  if (result.status === "missing") return null;
+  if (result.status === "corrupt") {
+    markCorrupt(filename, result.error);
+    return null;
+  }
+
+  const data = result.data;
+  if (migrateEventData(data)) {
+    logger.info(`🔄 Evento migrado para o formato v${EVENT_SCHEMA_VERSION}`, {
+      event: eventName,
+    });
+    await saveEventData(eventName, data);
+  }
+
+  // Armazenar no cache
+  eventCache.set(eventName, data);
+
+  return data;
+}
+
+/**
+ * Registra um arquivo de evento ilegível (ele não será sobrescrito)
+ */
+function markCorrupt(filename: string, message: string): void {
+  if (corruptEvents.has(filename)) return;
+
+  const file = storage.describe(filename);
+  corruptEvents.set(filename, {
+    file,
+    error: message,
+    detectedAt: new Date().toISOString(),
+  });
+  logger.error(
+    `❌ Evento corrompido: ${file} (não será sobrescrito; corrija ou restaure de data/backups/ e use /reload)`,
+    { error: message }
+  );
+}
+
+/**
+ * Lista os arquivos de evento corrompidos detectados
+ */
+export function listCorruptEvents(): CorruptEventFile[] {
+  return Array.from(corruptEvents.values());
+}
+
+/**
+ * Quantidade de eventos com gravação pendente (debounce)
+ */
+export function getPendingWriteCount(): number {
+  return pendingWrites.size;
+}
+
+/**
+ * Salva dados de um evento (com debounce)
+ * immediate = grava agora (edições administrativas e ciclo de vida)
+ */
+async function saveEventData(
+  eventName: string,
+  data: EventData,
+  immediate = false
+): Promise<void> {
+  // Atualizar cache imediatamente
+  eventCache.set(eventName, data);
+
+  const filename = sanitizeEventName(eventName);
+
+  // Cancelar escrita pendente anterior
+  if (pendingWrites.has(filename)) {
+    clearTimeout(pendingWrites.get(filename)!);
+    pendingWrites.delete(filename);
+  }
+
+  if (immediate) {
+    await writeEventFile(eventName, data);
+    return;
+  }
+
+  // Agendar nova escrita com debounce
+  const timeoutId = setTimeout(async () => {
+    pendingWrites.delete(filename);
+    await writeEventFile(eventName, data);
+  }, WRITE_DEBOUNCE_MS);
+
+  pendingWrites.set(filename, timeoutId);
+}
+
+/**
+ * Grava um evento no armazenamento (de forma durável, com backup rotativo)
+ * e descarta do journal as entradas já incluídas nele
+ * Gravações do mesmo evento rodam em série, na ordem em que foram pedidas
+ */
+function writeEventFile(eventName: string, data: EventData): Promise<void> {
+  const filename = sanitizeEventName(eventName);
+  const previous = writeChains.get(filename) ?? Promise.resolve();
+  const next = previous.then(() => writeEventFileNow(eventName, data));
+  writeChains.set(filename, next);
+  next.then(() => {
+    if (writeChains.get(filename) === next) writeChains.delete(filename);
+  });
+  return next;
+}
+
+async function writeEventFileNow(
+  eventName: string,
+  data: EventData
+): Promise<void> {
+  const filename = sanitizeEventName(eventName);
+  if (corruptEvents.has(filename)) {
+    logger.error(
+      `Gravação ignorada: ${storage.describe(filename)} está corrompido`
+    );
+    return;
+  }
+
+  const savedSeq = data.journalSeq;
+
+  try {
+    await storage.save(filename, data);
+    logger.info(`Dados do evento salvos: ${storage.describe(filename)}`);
+
+    if (savedSeq !== undefined) await journal.compact(filename, savedSeq);
+  } catch (error) {
+    logger.error("Erro ao salvar dados do evento", {
+      event: eventName,
+      error: (error as Error).message,
+    });
+  }
+}
+
+/**
+ * Registra a mudança de um registro no journal antes de aplicá-la ao arquivo
+ */
+async function journalRecord(
+  eventData: EventData,
+  key: string,
+  record: BestLapRecord
+): Promise<void> {
+  const filename = sanitizeEventName(eventData.eventName);
+  const seq =
+    Math.max(eventData.journalSeq ?? 0, journalSeqs.get(filename) ?? 0) + 1;
+  eventData.journalSeq = seq;
+  journalSeqs.set(filename, seq);
+
+  const entry: JournalEntry<BestLapRecord> = {
+    seq,
+    event: eventData.eventName,
+    op: "set-record",
+    key,
+    record,
+    at: new Date().toISOString(),
+  };
+
+  try {
+    await journal.append(filename, entry);
+  } catch (error) {
+    logger.error("Erro ao gravar journal", {
+      event: eventData.eventName,
+      error: (error as Error).message,
+    });
+  }
+}
+
+/**
+ * Reaplica entradas do journal ainda não gravadas nos arquivos de evento
+ * Deve ser chamado na inicialização, antes de aceitar dados
+ */
+export async function replayJournals(): Promise<void> {
+  const journals = await journal.readAll();
+
+  for (const [filename, entries] of journals) {
+    const eventName = entries[0].event;
+    journalSeqs.set(
+      filename,
+      Math.max(journalSeqs.get(filename) ?? 0, ...entries.map((e) => e.seq))
+    );
+    const eventData = await loadEventData(eventName);
+
+    if (!eventData && corruptEvents.has(filename)) {
+      logger.error(
+        `Journal de ${filename} mantido: arquivo do evento corrompido`
+      );
+      continue;
+    }
+
+    const target = eventData ?? (await getOrCreateEventData(eventName));
+    const pending = entries.filter(
+      (entry) => entry.seq > (target.journalSeq ?? 0)
+    ) as JournalEntry<BestLapRecord>[];
+
+    for (const entry of pending) {
+      target.pilots[entry.key] = entry.record;
+      target.journalSeq = entry.seq;
+    }
+
+    if (pending.length > 0) {
+      target.lastUpdated = new Date().toISOString();
+      logger.warn(
+        `♻️ ${pending.length} mudança(s) recuperada(s) do journal: ${eventName}`
+      );
+    }
+
+    // Grava o arquivo (e compacta o journal) mesmo sem pendências
+    await saveEventData(target.eventName, target, true);
+  }
+}
+
+/**
+ * Carrega um evento ou cria um novo (vazio) se não existir
+ */
+async function getOrCreateEventData(eventName: string): Promise<EventData> {
+  await waitForRecordEdits(eventName);
+  const eventData = await loadEventData(eventName);
+  if (eventData) return eventData;
+
+  if (corruptEvents.has(sanitizeEventName(eventName))) {
+    throw new Error(`Arquivo do evento '${eventName}' está corrompido`);
+  }
+
+  // Outra chamada pode ter criado o evento enquanto o arquivo era lido
+  const cached = eventCache.get(eventName);
+  if (cached) return cached;
+
+  logger.info(`📝 Criando novo evento: ${eventName}`);
+  const created: EventData = {
+    schemaVersion: EVENT_SCHEMA_VERSION,
+    eventName,
+    createdAt: new Date().toISOString(),
+    lastUpdated: new Date().toISOString(),
+    pilots: {},
+  };
+  eventCache.set(eventName, created);
+
+  return created;
+}
+
+/**
+ * Nome atual de um piloto (segue renomeações feitas via API)
+ */
+function resolvePilotName(eventData: EventData, pilotName: string): string {
+  return eventData.aliases?.[pilotName] ?? pilotName;
+}
+
+/**
+ * Detecta voltas completadas (incremento de currentLap) e salva no histórico
+ * Ao completar a volta o simulador reporta em lapData os dados da volta concluída
+ */
+export async function processLapCompletion(
+  data: RawSimulatorData
+): Promise<void> {
+  if (typeof data.currentLap !== "number" || !data.lapData) return;
+
+  const eventName = data.event || DEFAULT_EVENT_NAME;
+  const pilotName = data["pilot-name"];
+  const previous = lapProgress.get(data.simNum);
+
+  lapProgress.set(data.simNum, {
+    pilotName,
+    eventName,
+    currentLap: data.currentLap,
+  });
+
+  // Primeira leitura, troca de piloto/evento ou reinício de sessão
+  if (
+    !previous ||
+    previous.pilotName !== pilotName ||
+    previous.eventName !== eventName ||
+    data.currentLap <= previous.currentLap
+  ) {
+    return;
+  }
+
+  const { lapTime, sectorTimes, isValid } = data.lapData;
+  if (!lapTime || lapTime <= 0) return;
+
+  const eventData = await getOrCreateEventData(eventName);
+  const laps = (eventData.laps ??= {});
+  const pilotLaps = (laps[resolvePilotName(eventData, pilotName)] ??= []);
+
+  if (sectorTimes?.length) {
+    eventData.sectorCount = Math.max(eventData.sectorCount ?? 0, sectorTimes.length);
+  }
+
+  pilotLaps.push({
+    lapNumber: previous.currentLap,
+    lapTime,
+    sectorTimes: sectorTimes ?? [],
+    isValid: isValid !== false,
+    car: data.car,
+    track: data.track,
+    simNum: data.simNum,
+    timestamp: new Date().toISOString(),
+  });
+
+  eventData.lastUpdated = new Date().toISOString();
+
+  logger.info(`🏁 Volta completada`, {
+    pilot: pilotName,
+    lap: previous.currentLap,
+    lapTime,
+    valid: isValid !== false,
+    event: eventName,
+  });
+
+  await saveEventData(eventName, eventData);
+}
+
+/**
+ * Obtém o histórico de voltas de um piloto em um evento
+ * Nomes antigos de pilotos renomeados levam ao histórico do nome atual
+ * Retorna null se o evento não existir
+ */
+export async function getPilotLaps(
+  eventName: string,
+  pilotName: string
+): Promise<LapRecord[] | null> {
+  const eventData = await loadEventData(eventName);
+  if (!eventData) return null;
+
+  return eventData.laps?.[resolvePilotName(eventData, pilotName)] ?? [];
+}
+
+/**
+ * Conta os setores já completados (valores > 0 no início da lista)
+ */
+function countCompletedSectors(sectors: number[]): number {
+  let count = 0;
+  while (count < sectors.length && sectors[count] > 0) count++;
+  return count;
+}
+
+/**
+ * Recalcula a volta teórica a partir dos melhores setores
+ */
+function updateTheoreticalBest(
+  pilotSectors: PilotSectors,
+  sectorCount: number | undefined
+): void {
+  const bests = pilotSectors.bestSectors.slice(0, sectorCount);
+  if (
+    sectorCount !== undefined &&
+    bests.length === sectorCount &&
+    bests.every((time): time is number => typeof time === "number")
+  ) {
+    pilotSectors.theoreticalBest = bests.reduce((sum, time) => sum + time, 0);
+  }
+}
+
+/**
+ * Detecta setores completados em lapData.sectorTimes e atualiza os melhores
+ * setores do piloto e do evento
+ * Retorna os setores completados neste update (para "sector-complete")
+ */
+export async function processSectorTimes(
+  data: RawSimulatorData
+): Promise<SectorCompletion[]> {
+  const sectorTimes = data.lapData?.sectorTimes;
+  if (!Array.isArray(sectorTimes)) return [];
+
+  const eventName = data.event || DEFAULT_EVENT_NAME;
+  const pilotName = data["pilot-name"];
+  const previous = sectorProgress.get(data.simNum);
+
+  sectorProgress.set(data.simNum, {
+    pilotName,
+    eventName,
+    sectors: [...sectorTimes],
+  });
+
+  // Primeira leitura ou troca de piloto/evento: não sabemos o que é novo
+  if (
+    !previous ||
+    previous.pilotName !== pilotName ||
+    previous.eventName !== eventName
+  ) {
+    return [];
+  }
+
+  // Mesma volta: setores anteriores mantidos e novos acrescentados ao final
+  const previousCount = countCompletedSectors(previous.sectors);
+  const sameLap = previous.sectors
+    .slice(0, previousCount)
+    .every((time, i) => sectorTimes[i] === time);
+  const firstNew = sameLap ? previousCount : 0;
+  const completedCount = countCompletedSectors(sectorTimes);
+
+  if (completedCount <= firstNew) return [];
+
+  const eventData = await getOrCreateEventData(eventName);
+
+  // Lista com posições zeradas (setores futuros): o tamanho é o total de setores
+  if (sectorTimes.length > completedCount) {
+    eventData.sectorCount = Math.max(
+      eventData.sectorCount ?? 0,
+      sectorTimes.length
+    );
+  }
+
+  const settings = eventData.settings ?? DEFAULT_EVENT_SETTINGS;
+  const isValid = data.lapData.isValid !== false;
+  const countsForBest = isValid || settings.countInvalidLaps;
+
+  const recordName = resolvePilotName(eventData, pilotName);
+  const pilotSectors = ((eventData.pilotSectors ??= {})[recordName] ??= {
+    bestSectors: [],
+  });
+  const overall = (eventData.overallBestSectors ??= []);
+  const completions: SectorCompletion[] = [];
+
+  for (let i = firstNew; i < completedCount; i++) {
+    const sectorTime = sectorTimes[i];
+    const personalBefore = pilotSectors.bestSectors[i] ?? undefined;
+    const overallBefore = overall[i] ?? undefined;
+
+    const personalBest =
+      countsForBest &&
+      (personalBefore === undefined || sectorTime < personalBefore);
+    const overallBest =
+      countsForBest &&
+      (overallBefore === undefined || sectorTime < overallBefore.time);
+
+    if (personalBest) pilotSectors.bestSectors[i] = sectorTime;
+    if (overallBest) {
+      overall[i] = {
+        time: sectorTime,
+        pilotName: recordName,
+        car: data.car,
+        simNum: data.simNum,
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    completions.push({
+      simNum: data.simNum,
+      pilotName: recordName,
+      event: eventName,
+      lap: data.currentLap,
+      sectorIndex: i,
+      sectorTime,
+      isValid,
+      personalBest,
+      overallBest,
+      personalBestTime: pilotSectors.bestSectors[i] ?? undefined,
+      overallBestTime: overall[i]?.time,
+    });
+  }
+
+  // Normalizar posições vazias (JSON não tem "undefined" em listas)
+  for (let i = 0; i < pilotSectors.bestSectors.length; i++) {
+    pilotSectors.bestSectors[i] ??= null;
+  }
+  for (let i = 0; i < overall.length; i++) {
+    overall[i] ??= null;
+  }
+
+  // Volta teórica: soma dos melhores setores, quando todos são conhecidos
+  updateTheoreticalBest(pilotSectors, eventData.sectorCount);
+
+  for (const completion of completions) {
+    completion.theoreticalBest = pilotSectors.theoreticalBest;
+  }
+
+  if (completions.some((c) => c.personalBest || c.overallBest)) {
+    eventData.lastUpdated = new Date().toISOString();
+    await saveEventData(eventName, eventData);
+  }
+
+  return completions;
+}
+
+/**
+ * Validade da volta que gerou um melhor tempo
+ * Usa a volta completada mais recente com esse tempo no histórico; sem ela,
+ * lapData só é considerado se descrever a mesma volta (mesmo tempo)
+ */
+function isBestLapValid(
+  eventData: EventData,
+  pilotName: string,
+  data: RawSimulatorData,
+  bestLapTime: number
+): boolean {
+  const laps = eventData.laps?.[pilotName] ?? [];
+  for (let i = laps.length - 1; i >= 0; i--) {
+    const lap = laps[i];
+    if (
+      lap.lapTime === bestLapTime &&
+      lap.car === data.car &&
+      lap.track === data.track
+    ) {
+      return lap.isValid;
+    }
+  }
+
+  return (
+    data.lapData?.lapTime !== bestLapTime || data.lapData.isValid !== false
+  );
+}
+
+/**
+ * Verifica se a melhor volta já foi descartada como inválida para o piloto
+ * (mesmo tempo, carro e pista)
+ */
+function isKnownInvalidLap(
+  eventData: EventData,
+  pilotName: string,
+  data: RawSimulatorData,
+  bestLapTime: number
+): boolean {
+  return (
+    eventData.invalidLaps?.[pilotName]?.some(
+      (lap) =>
+        lap.bestLapTime === bestLapTime &&
+        lap.car === data.car &&
+        lap.track === data.track
+    ) ?? false
+  );
+}
+
+/**
+ * Guarda uma melhor volta inválida separadamente (não entra em `pilots`)
+ * Retorna false se ela já estava registrada
+ */
+function recordInvalidLap(
+  eventData: EventData,
+  data: RawSimulatorData,
+  bestLapTime: number
+): boolean {
+  const pilotName = resolvePilotName(eventData, data["pilot-name"]);
+  if (isKnownInvalidLap(eventData, pilotName, data, bestLapTime)) return false;
+
+  const invalidLaps = (eventData.invalidLaps ??= {});
+  const pilotInvalid = (invalidLaps[pilotName] ??= []);
+
+  logger.info(`🚫 Melhor volta inválida descartada`, {
+    pilot: pilotName,
+    time: bestLapTime,
+    event: eventData.eventName,
+  });
+
+  pilotInvalid.push({
+    pilotName,
+    bestLapTime,
+    car: data.car,
+    track: data.track,
+    timestamp: new Date().toISOString(),
+    simNum: data.simNum,
+    isValid: false,
+    invalidReason: INVALID_LAP_REASON,
+  });
+
+  eventData.lastUpdated = new Date().toISOString();
+  return true;
+}
+
+/**
+ * Atualiza as configurações de um evento (cria o evento se necessário)
+ */
+export async function updateEventSettings(
+  eventName: string,
+  changes: Partial<EventSettings>
+): Promise<EventSettings> {
+  const eventData = await getOrCreateEventData(eventName);
+
+  eventData.settings = {
+    ...DEFAULT_EVENT_SETTINGS,
+    ...eventData.settings,
+    ...changes,
+  };
+  eventData.lastUpdated = new Date().toISOString();
+
+  logger.info(`⚙️ Configurações do evento atualizadas: ${eventName}`, {
+    settings: eventData.settings,
+  });
+
+  await saveEventData(eventName, eventData, true);
+  return eventData.settings;
+}
+
+/**
+ * Processa e salva o melhor lap se necessário (com throttling)
+ * Retorna a mudança no ranking quando um novo melhor tempo é registrado
+ */
+export async function processBestLap(
+  data: RawSimulatorData
+): Promise<LeaderboardChange | null> {
+  // Definir nome do evento (padrão se não fornecido)
+  const eventName = data.event || DEFAULT_EVENT_NAME;
+
+  // Suportar tanto bestLap quanto bestTime
+  const bestLapTime = data.bestLap || data.bestTime;
+
+  // logger.info(`📥 Recebido bestLap request`, {
+  //   event: eventName,
+  //   pilot: data["pilot-name"],
+  //   bestLap: data.bestLap,
+  //   bestTime: data.bestTime,
+  //   using: bestLapTime,
+  // });
+
+  // Verificar se há bestLap para salvar
+  if (!bestLapTime || bestLapTime <= 0) {
+    // logger.warn(`⚠️ bestLap/bestTime inválido ou não fornecido`, {
+    //   bestLap: data.bestLap,
+    //   bestTime: data.bestTime,
+    // });
+    return null; // Nada a salvar
+  }
+
+  // Throttling por piloto - evitar processar o mesmo piloto muito rápido
+  const pilotKey = `${eventName}:${recordKey(
+    data["pilot-name"],
+    data.track,
+    data.car
+  )}`;
+  const now = Date.now();
+  const lastProcessed = lastProcessedLap.get(pilotKey);
+
+  if (lastProcessed) {
+    const timeSinceLastProcess = now - lastProcessed.timestamp;
+
+    // Se processou recentemente E a volta é a mesma, ignorar
+    if (
+      timeSinceLastProcess < MIN_PROCESS_INTERVAL_MS &&
+      lastProcessed.lap === data.bestLap
+    ) {
+      logger.debug(
+        `⏭️ Ignorado por throttling (${timeSinceLastProcess}ms desde último processamento)`
+      );
+      return null; // Ignorar processamento duplicado
+    }
+  }
+
+  // Atualizar timestamp do último processamento
+  lastProcessedLap.set(pilotKey, {
+    lap: bestLapTime,
+    timestamp: now,
+  });
+
+  // Carregar dados do evento (do cache se disponível)
+  const eventData = await getOrCreateEventData(eventName);
+
+  const pilotName = resolvePilotName(eventData, data["pilot-name"]);
+  const key = recordKey(pilotName, data.track, data.car);
+  const existingRecord = eventData.pilots[key];
+  const combination = { car: data.car, track: data.track };
+
+  // Volta inválida: marcada assim no histórico de voltas ou já descartada
+  // antes com o mesmo tempo (o simulador continua enviando o mesmo bestLap
+  // nas voltas seguintes)
+  const isValid =
+    isBestLapValid(eventData, pilotName, data, bestLapTime) &&
+    !isKnownInvalidLap(eventData, pilotName, data, bestLapTime);
+  const settings = eventData.settings ?? DEFAULT_EVENT_SETTINGS;
+
+  if (!isValid && !settings.countInvalidLaps) {
+    // Só grava se a volta é nova: repetições reiniciariam o debounce
+    if (recordInvalidLap(eventData, data, bestLapTime)) {
+      await saveEventData(eventName, eventData);
+    }
+    return null;
+  }
+
+  // Registros corrigidos ou removidos via API só mudam com uma volta nova,
+  // mais rápida que o tempo que o simulador reportava na edição
+  const editedTime = existingRecord
+    ? existingRecord.override && reportedBestLapTime(existingRecord)
+    : eventData.deletedRecords?.[key]?.bestLapTime;
+
+  // Verificar se precisa atualizar (melhor tempo ou primeiro registro)
+  const shouldUpdate =
+    (!existingRecord || bestLapTime < existingRecord.bestLapTime) &&
+    (editedTime === undefined || bestLapTime < editedTime);
+
+  if (shouldUpdate) {
+    logger.info(`✅ Atualizando melhor volta`, {
+      pilot: pilotName,
+      newBest: bestLapTime,
+      oldBest: existingRecord?.bestLapTime || "N/A",
+      event: eventName,
+    });
+
+    const before = rankRecords(
+      Object.values(eventData.pilots),
+      {},
+      combination
+    );
+    const oldPosition =
+      before.find((entry) => entry.pilotName === pilotName)?.position ?? null;
+
+    const record: BestLapRecord = {
+      pilotName,
+      bestLapTime: bestLapTime,
+      car: data.car,
+      track: data.track,
+      timestamp: new Date().toISOString(),
+      simNum: data.simNum,
+      ...(isValid ? {} : { isValid: false, invalidReason: INVALID_LAP_REASON }),
+    };
+    eventData.pilots[key] = record;
+    delete eventData.deletedRecords?.[key];
+
+    // Journal antes do arquivo: a volta sobrevive a um crash no debounce
+    await journalRecord(eventData, key, record);
+
+    eventData.lastUpdated = new Date().toISOString();
+
+    // Salvar arquivo (com debounce - não salva imediatamente)
+    await saveEventData(eventName, eventData);
+
+    logger.info(
+      `💾 Salvamento agendado para ${WRITE_DEBOUNCE_MS / 1000}s (debounce)`
+    );
+
+    const leaderboard = rankRecords(
+      Object.values(eventData.pilots),
+      countLaps(eventData),
+      combination
+    );
+    const newPosition =
+      leaderboard.find((entry) => entry.pilotName === pilotName)?.position ?? 0;
+
+    return {
+      event: eventName,
+      pilotName,
+      car: data.car,
+      track: data.track,
+      bestLapTime,
+      previousBestLapTime: existingRecord?.bestLapTime,
+      oldPosition,
+      newPosition,
+      leaderboard,
+    };
+  }
+
+  logger.debug(`⏭️ Volta não é melhor que a anterior`, {
+    current: bestLapTime,
+    best: existingRecord?.bestLapTime,
+    edited: editedTime,
+  });
+  return null;
+}
+
+/**
+ * Resultado de uma operação de ciclo de vida de evento
+ */
+export type EventLifecycleResult =
+  | { event: EventSummary; error?: undefined }
+  | { event?: undefined; error: string; code: "not-found" | "conflict" };
+
+/**
+ * Monta o resumo público de um evento
+ */
+function summarizeEvent(eventData: EventData): EventSummary {
+  return {
+    eventName: eventData.eventName,
+    status: eventData.status ?? "open",
+    active: eventData.active === true,
+    metadata: eventData.metadata ?? {},
+    createdAt: eventData.createdAt,
+    lastUpdated: eventData.lastUpdated,
+    closedAt: eventData.closedAt,
+    archivedAt: eventData.archivedAt,
+    records: Object.keys(eventData.pilots).length,
+  };
+}
+
+/**
+ * Carrega todos os eventos conhecidos (arquivos e cache ainda não gravado)
+ */
+async function loadAllEvents(): Promise<EventData[]> {
+  const events = new Set<EventData>(eventCache.values());
+
+  for (const name of await listEvents()) {
+    const eventData = await loadEventData(name);
+    if (eventData) events.add(eventData);
+  }
+
+  return Array.from(events);
+}
+
+/**
+ * Cria um evento explicitamente com metadados
+ * Falha se o evento já existir
+ */
+export async function createEvent(
+  eventName: string,
+  metadata: EventMetadata
+): Promise<EventLifecycleResult> {
+  if (await loadEventData(eventName)) {
+    return { error: "Evento já existe", code: "conflict" };
+  }
+
+  const eventData = await getOrCreateEventData(eventName);
+  eventData.status = "open";
+  eventData.metadata = metadata;
+
+  logger.info(`📅 Evento criado: ${eventName}`, { metadata });
+
+  await saveEventData(eventName, eventData, true);
+  return { event: summarizeEvent(eventData) };
+}
+
+/**
+ * Obtém o resumo de um evento
+ */
+export async function getEventSummary(
+  eventName: string
+): Promise<EventSummary | null> {
+  const eventData = await loadEventData(eventName);
+  return eventData ? summarizeEvent(eventData) : null;
+}
+
+/**
+ * Obtém o nome do evento marcado como ativo (ou null)
+ */
+export async function getActiveEvent(): Promise<string | null> {
+  if (activeEventName === undefined) {
+    const active = (await loadAllEvents()).find((event) => event.active);
+    activeEventName = active?.eventName ?? null;
+  }
+  return activeEventName;
+}
+
+/**
+ * Marca um evento aberto como ativo (desmarcando o anterior)
+ */
+export async function activateEvent(
+  eventName: string
+): Promise<EventLifecycleResult> {
+  const eventData = await loadEventData(eventName);
+  if (!eventData) return { error: "Evento não encontrado", code: "not-found" };
+
+  if ((eventData.status ?? "open") !== "open") {
+    return {
+      error: `Evento ${eventData.status === "closed" ? "encerrado" : "arquivado"} não pode ser ativado`,
+      code: "conflict",
+    };
+  }
+
+  for (const other of await loadAllEvents()) {
+    if (other !== eventData && other.active) {
+      other.active = false;
+      other.lastUpdated = new Date().toISOString();
+      await saveEventData(other.eventName, other, true);
+    }
+  }
+
+  eventData.active = true;
+  eventData.lastUpdated = new Date().toISOString();
+  activeEventName = eventData.eventName;
+
+  logger.info(`⭐ Evento ativo: ${eventData.eventName}`);
+
+  await saveEventData(eventData.eventName, eventData, true);
+  return { event: summarizeEvent(eventData) };
+}
+
+/**
+ * Remove a marcação de evento ativo
+ * Retorna o evento que estava ativo (ou null)
+ */
+export async function deactivateEvent(): Promise<EventSummary | null> {
+  const activeName = await getActiveEvent();
+  const eventData = activeName ? await loadEventData(activeName) : null;
+  activeEventName = null;
+  if (!eventData) return null;
+
+  eventData.active = false;
+  eventData.lastUpdated = new Date().toISOString();
+
+  logger.info(`⭐ Nenhum evento ativo (era ${eventData.eventName})`);
+
+  await saveEventData(eventData.eventName, eventData, true);
+  return summarizeEvent(eventData);
+}
+
+/**
+ * Muda o estado de um evento (encerrar ou arquivar)
+ * Eventos encerrados/arquivados deixam de ser o evento ativo
+ */
+async function transitionEvent(
+  eventName: string,
+  status: "closed" | "archived"
+): Promise<EventLifecycleResult> {
+  const eventData = await loadEventData(eventName);
+  if (!eventData) return { error: "Evento não encontrado", code: "not-found" };
+
+  const current = eventData.status ?? "open";
+  if (current === "archived" || current === status) {
+    return {
+      error: `Evento já está ${current === "closed" ? "encerrado" : "arquivado"}`,
+      code: "conflict",
+    };
+  }
+
+  const now = new Date().toISOString();
+  eventData.status = status;
+  if (status === "closed") eventData.closedAt = now;
+  if (status === "archived") {
+    eventData.closedAt = eventData.closedAt ?? now;
+    eventData.archivedAt = now;
+  }
+  eventData.lastUpdated = now;
+
+  if (eventData.active) {
+    eventData.active = false;
+    activeEventName = null;
+  }
+
+  logger.info(`📅 Evento ${eventName}: ${current} → ${status}`);
+
+  await saveEventData(eventData.eventName, eventData, true);
+  return { event: summarizeEvent(eventData) };
+}
+
+/**
+ * Encerra um evento (novas voltas são ignoradas)
+ */
+export function closeEvent(eventName: string): Promise<EventLifecycleResult> {
+  return transitionEvent(eventName, "closed");
+}
+
+/**
+ * Arquiva um evento (somente leitura)
+ */
+export function archiveEvent(eventName: string): Promise<EventLifecycleResult> {
+  return transitionEvent(eventName, "archived");
+}
+
+/**
+ * Verifica se um evento aceita as voltas destes dados
+ * Retorna o motivo da recusa, ou undefined se aceitar
+ * requireCreation = eventos inexistentes (não criados via API) são recusados
+ */
+export async function checkEventAcceptsLaps(
+  data: RawSimulatorData,
+  requireCreation: boolean
+): Promise<string | undefined> {
+  const eventName = data.event || DEFAULT_EVENT_NAME;
+  const eventData = await loadEventData(eventName);
+
+  if (corruptEvents.has(sanitizeEventName(eventName))) {
+    return `arquivo do evento '${eventName}' está corrompido`;
+  }
+
+  if (!eventData) {
+    return requireCreation ? `evento '${eventName}' não foi criado` : undefined;
+  }
+
+  const status = eventData.status ?? "open";
+  if (status !== "open") {
+    return `evento '${eventName}' está ${status === "closed" ? "encerrado" : "arquivado"}`;
+  }
+
+  const { track, allowedCars } = eventData.metadata ?? {};
+  if (track && data.track !== track) {
+    return `evento '${eventName}' só aceita a pista '${track}'`;
+  }
+  if (allowedCars?.length && !allowedCars.includes(data.car)) {
+    return `evento '${eventName}' não aceita o carro '${data.car}'`;
+  }
+
+  return undefined;
+}
 
-// Configurações de throttling
-const WRITE_DEBOUNCE_MS = 5000; // Espera 5s antes de salvar
-const MIN_PROCESS_INTERVAL_MS = 5000; // Mínimo 5s entre processamentos do mesmo piloto
+/**
+ * Falha de uma edição manual de registros
+ */
+type RecordEditFailure = {
+  before?: undefined;
+  after?: undefined;
+  error: string;
+  code: "not-found" | "invalid";
+};
 
 /**
- * Estrutura de registro de melhor volta
+ * Mudança descrita por uma edição (para o log de auditoria)
  */
-interface BestLapRecord {
-  pilotName: string;
-  bestLapTime: number;
-  car: string;
-  track: string;
-  timestamp: string;
-  simNum: number;
-}
+type RecordChange<B, A> = { before: B; after: A; error?: undefined };
 
 /**
- * Estrutura do arquivo de evento
+ * Resultado de uma edição manual de registros
+ * `before`/`after` descrevem a mudança para o log de auditoria
  */
-interface EventData {
-  eventName: string;
-  createdAt: string;
-  lastUpdated: string;
-  pilots: Record<string, BestLapRecord>;
+export type RecordEditResult =
+  | RecordChange<unknown, unknown>
+  | RecordEditFailure;
+
+/**
+ * Grava a mudança de uma edição antes de ela ser aplicada
+ * Se rejeitar, o evento não é alterado
+ */
+export type RecordEditAudit = (change: {
+  before: unknown;
+  after: unknown;
+}) => Promise<void>;
+
+/**
+ * Tempo que o simulador reporta para um registro (ignora correções manuais)
+ */
+function reportedBestLapTime(record: BestLapRecord): number {
+  if (!record.override) return record.bestLapTime;
+  return (
+    record.override.reportedBestLapTime ?? record.override.previousBestLapTime
+  );
 }
 
 /**
- * Garante que o diretório data/ existe
+ * Registros de melhor volta de um piloto, opcionalmente filtrados por combinação
  */
-async function ensureDataDirectory(): Promise<void> {
-  try {
-    await fs.mkdir(DATA_DIR, { recursive: true });
-  } catch (error) {
-    logger.error("Erro ao criar diretório data/", {
-      error: (error as Error).message,
-    });
-  }
+function findPilotRecords(
+  eventData: EventData,
+  pilotName: string,
+  combination: { car?: string; track?: string }
+): [string, BestLapRecord][] {
+  return Object.entries(eventData.pilots).filter(
+    ([, record]) =>
+      record.pilotName === pilotName &&
+      (combination.car === undefined || record.car === combination.car) &&
+      (combination.track === undefined || record.track === combination.track)
+  );
 }
 
 /**
- * Gera nome de arquivo seguro a partir do nome do evento
+ * Espera as edições manuais auditadas em andamento no evento
  */
-function sanitizeEventName(eventName: string): string {
-  return eventName
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, "-")
-    .replace(/^-|-$/g, "");
+async function waitForRecordEdits(eventName: string): Promise<void> {
+  const filename = sanitizeEventName(eventName);
+  let pending: Promise<unknown> | undefined;
+  while ((pending = pendingEdits.get(filename))) {
+    await pending.catch(() => {});
+  }
 }
 
 /**
- * Carrega dados de um evento (com cache)
+ * Aplica uma edição manual aos dados de um evento
+ * Com `audit`, a edição é simulada em uma cópia e a mudança é auditada antes
+ * de ser aplicada; se a auditoria falhar, nada muda. Enquanto a auditoria é
+ * gravada, voltas recebidas e outras edições do evento esperam, então a
+ * mudança aplicada é a mesma que foi auditada
+ * `apply` valida e altera os dados sem pausas (síncrono)
  */
-async function loadEventData(eventName: string): Promise<EventData | null> {
-  // Verificar cache primeiro
-  if (eventCache.has(eventName)) {
-    return eventCache.get(eventName)!;
+async function applyRecordEdit<B, A>(
+  eventName: string,
+  apply: (eventData: EventData) => RecordChange<B, A> | RecordEditFailure,
+  audit?: RecordEditAudit
+): Promise<
+  (RecordChange<B, A> & { eventData: EventData }) | RecordEditFailure
+> {
+  if (!audit) {
+    const eventData = await loadEventData(eventName);
+    if (!eventData) {
+      return { error: "Evento não encontrado", code: "not-found" };
+    }
+    return commitRecordEdit(eventData, apply(eventData));
   }
 
   const filename = sanitizeEventName(eventName);
-  const filepath = join(DATA_DIR, `${filename}.json`);
+  const previous = pendingEdits.get(filename) ?? Promise.resolve();
+  const edit = previous
+    .catch(() => {})
+    .then(async () => {
+      const eventData = await loadEventData(eventName);
+      if (!eventData) {
+        return { error: "Evento não encontrado", code: "not-found" } as const;
+      }
 
-  try {
-    const content = await fs.readFile(filepath, "utf-8");
-    const data = JSON.parse(content);
+      const preview = apply(structuredClone(eventData));
+      if (preview.error !== undefined) return preview;
+      await audit(preview);
 
-    // Armazenar no cache
-    eventCache.set(eventName, data);
+      return commitRecordEdit(eventData, apply(eventData));
+    });
+  pendingEdits.set(filename, edit);
 
-    return data;
-  } catch (error) {
-    // Arquivo não existe ou erro ao ler
-    return null;
+  try {
+    return await edit;
+  } finally {
+    if (pendingEdits.get(filename) === edit) pendingEdits.delete(filename);
   }
 }
 
 /**
- * Salva dados de um evento (com debounce)
+ * Conclui uma edição aplicada aos dados do evento
  */
-async function saveEventData(
+function commitRecordEdit<B, A>(
+  eventData: EventData,
+  change: RecordChange<B, A> | RecordEditFailure
+): (RecordChange<B, A> & { eventData: EventData }) | RecordEditFailure {
+  if (change.error !== undefined) return change;
+
+  eventData.lastUpdated = new Date().toISOString();
+  return { ...change, eventData };
+}
+
+/**
+ * Remove os registros de melhor volta de um piloto
+ * Sem filtro de combinação, remove também histórico de voltas e setores
+ */
+export async function deletePilotRecords(
   eventName: string,
-  data: EventData
-): Promise<void> {
-  // Atualizar cache imediatamente
-  eventCache.set(eventName, data);
+  pilotName: string,
+  combination: { car?: string; track?: string } = {},
+  audit?: RecordEditAudit
+): Promise<RecordEditResult> {
+  const edit = await applyRecordEdit(
+    eventName,
+    (eventData) => removePilotRecords(eventData, pilotName, combination),
+    audit
+  );
+  if (edit.error !== undefined) return edit;
 
-  const filename = sanitizeEventName(eventName);
+  const { eventData, before, after } = edit;
+  logger.info(`🗑️ Registros removidos: ${pilotName}`, {
+    event: eventName,
+    records: before.length,
+  });
 
-  // Cancelar escrita pendente anterior
-  if (pendingWrites.has(filename)) {
-    clearTimeout(pendingWrites.get(filename)!);
+  await saveEventData(eventData.eventName, eventData, true);
+  return { before, after };
+}
+
+/**
+ * Remove os registros (e deixa lápides) nos dados de um evento
+ */
+function removePilotRecords(
+  eventData: EventData,
+  pilotName: string,
+  combination: { car?: string; track?: string }
+): RecordChange<BestLapRecord[], null> | RecordEditFailure {
+  const matches = findPilotRecords(eventData, pilotName, combination);
+  const wholePilot =
+    combination.car === undefined && combination.track === undefined;
+
+  if (matches.length === 0 && !(wholePilot && eventData.laps?.[pilotName])) {
+    return { error: "Piloto sem registros no evento", code: "not-found" };
   }
 
-  // Agendar nova escrita com debounce
-  const timeoutId = setTimeout(async () => {
-    await ensureDataDirectory();
-    const filepath = join(DATA_DIR, `${filename}.json`);
+  // Lápides: o bestLap que o simulador segue reportando não recria o registro
+  const deletedAt = new Date().toISOString();
+  const deleted = (eventData.deletedRecords ??= {});
+  for (const [key, record] of matches) {
+    delete eventData.pilots[key];
+    deleted[key] = {
+      pilotName: record.pilotName,
+      track: record.track,
+      car: record.car,
+      bestLapTime: reportedBestLapTime(record),
+      at: deletedAt,
+    };
+  }
 
-    try {
-      await fs.writeFile(filepath, JSON.stringify(data, null, 2), "utf-8");
-      logger.info(`Dados do evento salvos: ${filename}.json`);
-      pendingWrites.delete(filename);
-    } catch (error) {
-      logger.error("Erro ao salvar dados do evento", {
-        event: eventName,
-        error: (error as Error).message,
-      });
-    }
-  }, WRITE_DEBOUNCE_MS);
+  if (wholePilot) {
+    delete eventData.laps?.[pilotName];
+    delete eventData.invalidLaps?.[pilotName];
+    delete eventData.pilotSectors?.[pilotName];
+  }
 
-  pendingWrites.set(filename, timeoutId);
+  return {
+    before: matches.map(([, record]) => record),
+    after: null,
+  };
 }
 
 /**
- * Processa e salva o melhor lap se necessário (com throttling)
+ * Renomeia um piloto, mesclando com o destino se ele já existir
+ * (mantém o melhor tempo de cada combinação e junta histórico e setores)
+ * Dados que continuarem chegando com o nome antigo vão para o novo nome
  */
-export async function processBestLap(data: RawSimulatorData): Promise<void> {
-  // Definir nome do evento (padrão se não fornecido)
-  const eventName = data.event || "default-event";
+export async function renamePilot(
+  eventName: string,
+  pilotName: string,
+  newName: string,
+  audit?: RecordEditAudit
+): Promise<RecordEditResult> {
+  const edit = await applyRecordEdit(
+    eventName,
+    (eventData) => mergePilotInto(eventData, pilotName, newName),
+    audit
+  );
+  if (edit.error !== undefined) return edit;
 
-  // Suportar tanto bestLap quanto bestTime
-  const bestLapTime = data.bestLap || data.bestTime;
+  const { eventData, before, after } = edit;
+  logger.info(`✏️ Piloto renomeado: ${pilotName} → ${newName}`, {
+    event: eventName,
+    merged: after.merged,
+  });
 
-  // logger.info(`📥 Recebido bestLap request`, {
-  //   event: eventName,
-  //   pilot: data["pilot-name"],
-  //   bestLap: data.bestLap,
-  //   bestTime: data.bestTime,
-  //   using: bestLapTime,
-  // });
+  await saveEventData(eventData.eventName, eventData, true);
+  return { before, after };
+}
 
-  // Verificar se há bestLap para salvar
-  if (!bestLapTime || bestLapTime <= 0) {
-    // logger.warn(`⚠️ bestLap/bestTime inválido ou não fornecido`, {
-    //   bestLap: data.bestLap,
-    //   bestTime: data.bestTime,
-    // });
-    return; // Nada a salvar
+/**
+ * Move os dados de um piloto para outro nome nos dados de um evento
+ */
+function mergePilotInto(
+  eventData: EventData,
+  pilotName: string,
+  newName: string
+):
+  | RecordChange<
+      { pilotName: string; records: BestLapRecord[] },
+      { pilotName: string; merged: boolean; records: BestLapRecord[] }
+    >
+  | RecordEditFailure {
+  if (pilotName === newName) {
+    return { error: "O novo nome é igual ao atual", code: "invalid" };
   }
 
-  // Throttling por piloto - evitar processar o mesmo piloto muito rápido
-  const pilotKey = `${eventName}:${data["pilot-name"]}`;
-  const now = Date.now();
-  const lastProcessed = lastProcessedLap.get(pilotKey);
+  const matches = findPilotRecords(eventData, pilotName, {});
+  if (matches.length === 0 && !eventData.laps?.[pilotName]) {
+    return { error: "Piloto sem registros no evento", code: "not-found" };
+  }
 
-  if (lastProcessed) {
-    const timeSinceLastProcess = now - lastProcessed.timestamp;
+  const merged = findPilotRecords(eventData, newName, {}).length > 0;
 
-    // Se processou recentemente E a volta é a mesma, ignorar
-    if (
-      timeSinceLastProcess < MIN_PROCESS_INTERVAL_MS &&
-      lastProcessed.lap === data.bestLap
-    ) {
-      logger.debug(
-        `⏭️ Ignorado por throttling (${timeSinceLastProcess}ms desde último processamento)`
-      );
-      return; // Ignorar processamento duplicado
+  // Melhores voltas: vence o menor tempo de cada combinação
+  for (const [key, record] of matches) {
+    delete eventData.pilots[key];
+    const targetKey = recordKey(newName, record.track, record.car);
+    const target = eventData.pilots[targetKey];
+    if (!target || record.bestLapTime < target.bestLapTime) {
+      eventData.pilots[targetKey] = { ...record, pilotName: newName };
     }
   }
 
-  // Atualizar timestamp do último processamento
-  lastProcessedLap.set(pilotKey, {
-    lap: bestLapTime,
-    timestamp: now,
-  });
+  // Histórico de voltas e voltas inválidas: concatenados em ordem cronológica
+  if (eventData.laps?.[pilotName]) {
+    eventData.laps[newName] = [
+      ...(eventData.laps[newName] ?? []),
+      ...eventData.laps[pilotName],
+    ].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    delete eventData.laps[pilotName];
+  }
+  if (eventData.invalidLaps?.[pilotName]) {
+    eventData.invalidLaps[newName] = [
+      ...(eventData.invalidLaps[newName] ?? []),
+      ...eventData.invalidLaps[pilotName].map((lap) => ({
+        ...lap,
+        pilotName: newName,
+      })),
+    ];
+    delete eventData.invalidLaps[pilotName];
+  }
 
-  // Carregar dados do evento (do cache se disponível)
-  let eventData = await loadEventData(eventName);
+  // Setores: menor tempo por índice
+  const sectors = eventData.pilotSectors?.[pilotName];
+  if (eventData.pilotSectors && sectors) {
+    const target = eventData.pilotSectors[newName];
+    const bestSectors = target
+      ? Array.from(
+          {
+            length: Math.max(
+              target.bestSectors.length,
+              sectors.bestSectors.length
+            ),
+          },
+          (_, i) => {
+            const times = [target.bestSectors[i], sectors.bestSectors[i]].filter(
+              (time): time is number => typeof time === "number"
+            );
+            return times.length > 0 ? Math.min(...times) : null;
+          }
+        )
+      : sectors.bestSectors;
 
-  // Se não existe, criar novo
-  if (!eventData) {
-    logger.info(`📝 Criando novo evento: ${eventName}`);
-    eventData = {
-      eventName,
-      createdAt: new Date().toISOString(),
-      lastUpdated: new Date().toISOString(),
-      pilots: {},
+    const pilotSectors: PilotSectors = { bestSectors };
+    updateTheoreticalBest(pilotSectors, eventData.sectorCount);
+    eventData.pilotSectors[newName] = pilotSectors;
+    delete eventData.pilotSectors[pilotName];
+  }
+  for (const sector of eventData.overallBestSectors ?? []) {
+    if (sector?.pilotName === pilotName) sector.pilotName = newName;
+  }
+
+  // Lápides de registros removidos acompanham o piloto
+  const deleted = eventData.deletedRecords ?? {};
+  for (const [key, tombstone] of Object.entries(deleted)) {
+    if (tombstone.pilotName !== pilotName) continue;
+    delete deleted[key];
+    deleted[recordKey(newName, tombstone.track, tombstone.car)] ??= {
+      ...tombstone,
+      pilotName: newName,
     };
   }
 
-  const pilotName = data["pilot-name"];
-  const existingRecord = eventData.pilots[pilotName];
+  // Aliases: o nome antigo (e quem já apontava para ele) segue o novo nome
+  const aliases = (eventData.aliases ??= {});
+  for (const [alias, target] of Object.entries(aliases)) {
+    if (target === pilotName) aliases[alias] = newName;
+  }
+  aliases[pilotName] = newName;
+  delete aliases[newName];
 
-  // Verificar se precisa atualizar (melhor tempo ou primeiro registro)
-  const shouldUpdate =
-    !existingRecord || bestLapTime < existingRecord.bestLapTime;
+  return {
+    before: { pilotName, records: matches.map(([, record]) => record) },
+    after: {
+      pilotName: newName,
+      merged,
+      records: findPilotRecords(eventData, newName, {}).map(
+        ([, record]) => record
+      ),
+    },
+  };
+}
 
-  if (shouldUpdate) {
-    logger.info(`✅ Atualizando melhor volta`, {
-      pilot: pilotName,
-      newBest: bestLapTime,
-      oldBest: existingRecord?.bestLapTime || "N/A",
-      event: eventName,
-    });
+/**
+ * Substitui manualmente a melhor volta de um piloto
+ * Com mais de uma combinação pista + carro, `car` e `track` são obrigatórios
+ */
+export async function overrideBestLap(
+  eventName: string,
+  pilotName: string,
+  override: {
+    bestLapTime: number;
+    reason: string;
+    car?: string;
+    track?: string;
+  },
+  audit?: RecordEditAudit
+): Promise<RecordEditResult> {
+  const edit = await applyRecordEdit(
+    eventName,
+    (eventData) => overridePilotRecord(eventData, pilotName, override),
+    audit
+  );
+  if (edit.error !== undefined) return edit;
 
-    eventData.pilots[pilotName] = {
-      pilotName,
-      bestLapTime: bestLapTime,
-      car: data.car,
-      track: data.track,
-      timestamp: new Date().toISOString(),
-      simNum: data.simNum,
-    };
+  const { eventData, before, after } = edit;
+  await journalRecord(
+    eventData,
+    recordKey(after.pilotName, after.track, after.car),
+    after
+  );
 
-    eventData.lastUpdated = new Date().toISOString();
+  logger.info(`✏️ Melhor volta corrigida: ${pilotName}`, {
+    event: eventName,
+    from: before.bestLapTime,
+    to: override.bestLapTime,
+    reason: override.reason,
+  });
 
-    // Salvar arquivo (com debounce - não salva imediatamente)
-    await saveEventData(eventName, eventData);
+  await saveEventData(eventData.eventName, eventData, true);
+  return { before, after };
+}
 
-    logger.info(
-      `💾 Salvamento agendado para ${WRITE_DEBOUNCE_MS / 1000}s (debounce)`
-    );
-  } else {
-    logger.debug(`⏭️ Volta não é melhor que a anterior`, {
-      current: bestLapTime,
-      best: existingRecord.bestLapTime,
-    });
+/**
+ * Substitui a melhor volta de um piloto nos dados de um evento
+ */
+function overridePilotRecord(
+  eventData: EventData,
+  pilotName: string,
+  override: {
+    bestLapTime: number;
+    reason: string;
+    car?: string;
+    track?: string;
+  }
+): RecordChange<BestLapRecord, BestLapRecord> | RecordEditFailure {
+  const matches = findPilotRecords(eventData, pilotName, override);
+  if (matches.length === 0) {
+    return { error: "Piloto sem registros no evento", code: "not-found" };
   }
+  if (matches.length > 1) {
+    return {
+      error: "Piloto tem tempos em mais de uma combinação: informe 'car' e 'track'",
+      code: "invalid",
+    };
+  }
+
+  const [key, record] = matches[0];
+  const now = new Date().toISOString();
+  const updated: BestLapRecord = {
+    ...record,
+    bestLapTime: override.bestLapTime,
+    timestamp: now,
+    override: {
+      reason: override.reason,
+      previousBestLapTime: record.bestLapTime,
+      reportedBestLapTime: reportedBestLapTime(record),
+      at: now,
+    },
+  };
+  eventData.pilots[key] = updated;
+
+  return { before: record, after: updated };
 }
 
 /**
  * Lista todos os eventos salvos
  */
 export async function listEvents(): Promise<string[]> {
-  await ensureDataDirectory();
-
   try {
-    const files = await fs.readdir(DATA_DIR);
-    return files
-      .filter((f) => f.endsWith(".json"))
-      .map((f) => f.replace(".json", ""));
+    return await storage.list();
   } catch (error) {
     logger.error("Erro ao listar eventos", {
       error: (error as Error).message,
@@ -263,6 +1678,118 @@ export async function getEventData(
   return loadEventData(eventName);
 }
 
+/**
+ * Conta as voltas completadas no histórico por piloto + pista + carro
+ */
+function countLaps(eventData: EventData): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const [pilotName, laps] of Object.entries(eventData.laps ?? {})) {
+    for (const lap of laps) {
+      const key = recordKey(pilotName, lap.track, lap.car);
+      counts[key] = (counts[key] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Obtém o ranking completo de um evento (posição e gaps), calculado dentro de
+ * cada combinação pista + carro como em "leaderboard-update"
+ */
+export async function getEventLeaderboard(
+  eventName: string
+): Promise<LeaderboardEntry[]> {
+  const eventData = await loadEventData(eventName);
+  if (!eventData) return [];
+
+  return rankResults(eventData).entries;
+}
+
+/**
+ * Obtém o ranking de um evento com filtros e paginação
+ * Posições e gaps são calculados dentro de cada combinação pista + carro
+ * Retorna null se o evento não existir
+ */
+export async function getLeaderboard(
+  eventName: string,
+  query: LeaderboardQuery = {}
+): Promise<Leaderboard | null> {
+  const eventData = await loadEventData(eventName);
+  if (!eventData) return null;
+
+  const ranked = rankResults(eventData, query).entries;
+  const offset = query.offset ?? 0;
+  const limit = query.limit ?? DEFAULT_LEADERBOARD_LIMIT;
+
+  return {
+    eventName: eventData.eventName,
+    total: ranked.length,
+    offset,
+    limit,
+    entries: ranked.slice(offset, offset + limit),
+  };
+}
+
+/**
+ * Lista as combinações pista + carro com tempos em um evento
+ * Retorna null se o evento não existir
+ */
+export async function getEventCombinations(
+  eventName: string
+): Promise<LeaderboardCombination[] | null> {
+  const eventData = await loadEventData(eventName);
+  if (!eventData) return null;
+
+  return listCombinations(Object.values(eventData.pilots));
+}
+
+/**
+ * Obtém o resultado de um evento, ranqueado por combinação pista + carro
+ * `query` filtra por pista, carro ou simulador
+ * Retorna null se o evento não existir
+ */
+export async function getEventResults(
+  eventName: string,
+  query: LeaderboardQuery = {}
+): Promise<EventResults | null> {
+  const eventData = await loadEventData(eventName);
+  if (!eventData) return null;
+
+  return rankResults(eventData, query);
+}
+
+/**
+ * Obtém o resultado de todos os eventos (gravados e ainda em memória)
+ */
+export async function getAllEventResults(): Promise<EventResults[]> {
+  const events = await loadAllEvents();
+  return events
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map((eventData) => rankResults(eventData));
+}
+
+/**
+ * Ranqueia os registros de um evento dentro de cada combinação pista + carro
+ */
+function rankResults(
+  eventData: EventData,
+  query: LeaderboardQuery = {}
+): EventResults {
+  const records = Object.values(eventData.pilots);
+  const lapCounts = countLaps(eventData);
+  const entries = listCombinations(records)
+    .filter(
+      ({ track, car }) =>
+        (query.track === undefined || track === query.track) &&
+        (query.car === undefined || car === query.car)
+    )
+    .flatMap(({ track, car }) =>
+      rankRecords(records, lapCounts, { ...query, track, car })
+    );
+
+  return { event: summarizeEvent(eventData), entries };
+}
+
 /**
  * Força a gravação de todos os dados pendentes
  * Útil para chamar antes de desligar o servidor
@@ -275,47 +1802,112 @@ export async function flushPendingWrites(): Promise<void> {
     clearTimeout(timeoutId);
   }
 
-  // Salvar todos os dados do cache
-  const promises: Promise<void>[] = [];
+  // Salvar todos os dados do cache (erros são registrados em writeEventFile)
+  await Promise.all(
+    Array.from(eventCache.entries()).map(([eventName, data]) =>
+      writeEventFile(eventName, data)
+    )
+  );
+  pendingWrites.clear();
+  logger.info("Gravação de dados pendentes concluída");
+}
 
-  for (const [eventName, data] of eventCache.entries()) {
-    const filename = sanitizeEventName(eventName);
-    const filepath = join(DATA_DIR, `${filename}.json`);
+/**
+ * Seleciona o armazenamento dos eventos
+ * Deve ser chamado antes de qualquer leitura (o cache é descartado)
+ */
+export async function initStorage(
+  backend: StorageBackend,
+  sqlitePath: string = DEFAULT_SQLITE_PATH
+): Promise<void> {
+  await storage.close();
+  storage =
+    backend === "sqlite"
+      ? new SqliteEventStorage<EventData>(sqlitePath, BACKUP_POLICY)
+      : new JsonEventStorage<EventData>(DATA_DIR, BACKUP_POLICY);
+  invalidateCache();
 
-    promises.push(
-      fs
-        .writeFile(filepath, JSON.stringify(data, null, 2), "utf-8")
-        .then(() => {
-          logger.info(`Dados salvos: ${filename}.json`);
-        })
-        .catch((error) => {
-          logger.error(`Erro ao salvar ${filename}.json`, {
-            error: (error as Error).message,
-          });
-        })
-    );
+  logger.info(`💾 Armazenamento de eventos: ${backend}`, {
+    path: backend === "sqlite" ? sqlitePath : DATA_DIR,
+  });
+}
+
+/**
+ * Fecha o armazenamento (após flushPendingWrites)
+ */
+export async function closeStorage(): Promise<void> {
+  await storage.close();
+}
+
+/**
+ * Resultado da importação de arquivos JSON
+ */
+export interface JsonImportResult {
+  imported: string[];
+  skipped: string[]; // Já existentes no armazenamento atual
+  failed: { key: string; error: string }[];
+}
+
+/**
+ * Importa os arquivos data/*.json para o armazenamento atual (ex: SQLite)
+ * Eventos já existentes no destino não são sobrescritos
+ */
+export async function importJsonEvents(
+  sourceDir: string = DATA_DIR
+): Promise<JsonImportResult> {
+  const source = new JsonEventStorage<EventData>(sourceDir);
+  const result: JsonImportResult = { imported: [], skipped: [], failed: [] };
+
+  for (const key of await source.list()) {
+    if ((await storage.load(key)).status !== "missing") {
+      result.skipped.push(key);
+      continue;
+    }
+
+    const loaded = await source.load(key);
+    if (loaded.status !== "ok") {
+      result.failed.push({
+        key,
+        error: loaded.status === "corrupt" ? loaded.error : "arquivo ausente",
+      });
+      continue;
+    }
+
+    const data = loaded.data;
+    migrateEventData(data);
+    data.eventName ??= key;
+
+    try {
+      await storage.save(key, data);
+      result.imported.push(key);
+    } catch (error) {
+      result.failed.push({ key, error: (error as Error).message });
+    }
   }
 
-  await Promise.all(promises);
-  pendingWrites.clear();
-  logger.info("Gravação de dados pendentes concluída");
+  invalidateCache();
+  return result;
 }
 
 /**
  * Invalida o cache de um evento específico
  */
 export function invalidateCache(eventName?: string): void {
+  activeEventName = undefined;
+
   if (eventName) {
     eventCache.delete(eventName);
+    corruptEvents.delete(sanitizeEventName(eventName));
     logger.info(`Cache invalidado para evento: ${eventName}`);
   } else {
     eventCache.clear();
+    corruptEvents.clear();
     logger.info("Cache completo invalidado");
   }
 }
 
 /**
- * Recarrega dados de um evento do filesystem
+ * Recarrega dados de um evento do armazenamento
  */
 export async function reloadEventData(eventName: string): Promise<void> {
   invalidateCache(eventName);
@@ -324,26 +1916,31 @@ export async function reloadEventData(eventName: string): Promise<void> {
 }
 
 /**
- * Recarrega todos os eventos do filesystem
+ * Recarrega todos os eventos do armazenamento
  */
 export async function reloadAllEvents(): Promise<void> {
   invalidateCache(); // Limpa todo o cache
 
   try {
-    const files = await fs.readdir(DATA_DIR);
-    const jsonFiles = files.filter((f) => f.endsWith(".json"));
+    const keys = await storage.list();
+
+    for (const key of keys) {
+      const result = await storage.load(key);
+      if (result.status === "corrupt") {
+        markCorrupt(key, result.error);
+        continue;
+      }
+      if (result.status === "missing") continue;
 
-    for (const file of jsonFiles) {
-      const filepath = join(DATA_DIR, file);
-      const content = await fs.readFile(filepath, "utf-8");
-      const data = JSON.parse(content);
+      const data = result.data;
+      migrateEventData(data);
 
       if (data.eventName) {
         eventCache.set(data.eventName, data);
       }
     }
 
-    logger.info(`Cache recarregado com ${jsonFiles.length} evento(s)`);
+    logger.info(`Cache recarregado com ${keys.length} evento(s)`);
   } catch (error) {
     logger.error("Erro ao recarregar eventos", {
       error: (error as Error).message,
@@ -353,8 +1950,12 @@ export async function reloadAllEvents(): Promise<void> {
 
 /**
  * Inicializa file watcher para detectar mudanças nos arquivos JSON
+ * Sem efeito com o armazenamento SQLite
  */
 export function initFileWatcher(): void {
+  if (!(storage instanceof JsonEventStorage)) return;
+  const jsonStorage = storage;
+
   const watchPattern = join(DATA_DIR, "*.json");
 
   const watcher = chokidar.watch(watchPattern, {
@@ -379,7 +1980,16 @@ export function initFileWatcher(): void {
 
       try {
         const content = await fs.readFile(filepath, "utf-8");
-        const data = JSON.parse(content);
+
+        // Escrita feita pelo próprio servidor: o cache já está atualizado
+        if (jsonStorage.isOwnWrite(filename.replace(".json", ""), content)) {
+          logger.debug(`Ignorando escrita própria: ${filename}`);
+          return;
+        }
+
+        const data: EventData = JSON.parse(content);
+        migrateEventData(data);
+        corruptEvents.delete(filename.replace(".json", ""));
 
         // Se o JSON declarar eventName, usar esse; senão inferir do nome do arquivo
         const eventName = data.eventName || filename.replace(".json", "");
@@ -1,4 +1,169 @@
-import type { ServerConfig } from "./types.js";
+import type {
+  ApiToken,
+  AuthRole,
+  RosterEntry,
+  ServerConfig,
+  StorageBackend,
+} from "./types.js";
+import { logger } from "./logger.js";
+
+const AUTH_ROLES: AuthRole[] = ["simulator", "display", "admin"];
+const STORAGE_BACKENDS: StorageBackend[] = ["json", "sqlite"];
+const VALIDATION_MODES: ServerConfig["inputValidationMode"][] = [
+  "reject",
+  "coerce",
+  "strip",
+];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Lê um inteiro (>= min) de uma variável de ambiente
+ * Valores inválidos são ignorados com aviso e o padrão é usado
+ */
+function parseIntEnv(name: string, defaultValue: number, min = 1): number {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === "") return defaultValue;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    logger.warn(
+      `${name} inválido: "${value}" (inteiro >= ${min}). Usando o padrão ${defaultValue}`
+    );
+    return defaultValue;
+  }
+  return parsed;
+}
+
+/**
+ * Lê o modo de validação de entrada (INPUT_VALIDATION_MODE)
+ */
+function parseValidationMode(
+  value: string | undefined
+): ServerConfig["inputValidationMode"] {
+  const mode = (value || "reject") as ServerConfig["inputValidationMode"];
+  if (!VALIDATION_MODES.includes(mode)) {
+    throw new Error(
+      `INPUT_VALIDATION_MODE inválido: "${value}". Use ${VALIDATION_MODES.join(" | ")}`
+    );
+  }
+  return mode;
+}
+
+/**
+ * Interpreta a lista de tokens no formato "token:papel[:simNum],..."
+ * Ex: API_TOKENS="abc123:admin,tv01:display,rig1:simulator:1"
+ */
+function parseApiTokens(value: string | undefined): ApiToken[] {
+  if (!value) return [];
+
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const [token, role, simNum] = entry.split(":");
+
+      if (!token || !AUTH_ROLES.includes(role as AuthRole)) {
+        throw new Error(
+          `Token inválido em API_TOKENS: "${entry}". Formato: token:(${AUTH_ROLES.join("|")})[:simNum]`
+        );
+      }
+
+      const apiToken: ApiToken = { token, role: role as AuthRole };
+
+      if (simNum !== undefined) {
+        const parsed = parseInt(simNum, 10);
+        if (role !== "simulator" || isNaN(parsed)) {
+          throw new Error(
+            `simNum só pode ser associado a tokens simulator: "${entry}"`
+          );
+        }
+        apiToken.simNum = parsed;
+      }
+
+      return apiToken;
+    });
+}
+
+/**
+ * Monta o roster de simuladores
+ * SIMULATOR_ROSTER (JSON) tem prioridade sobre SIMULATOR_COUNT
+ * Ex: SIMULATOR_ROSTER='[{"simNum":1,"label":"Rig A","car":"Ferrari 458"}]'
+ */
+function parseRoster(
+  rosterJson: string | undefined,
+  count: string | undefined
+): RosterEntry[] {
+  if (!rosterJson) {
+    const total = parseInt(count || "3", 10);
+    if (isNaN(total) || total < 1) {
+      throw new Error(`SIMULATOR_COUNT inválido: "${count}"`);
+    }
+    return Array.from({ length: total }, (_, i) => ({
+      simNum: i + 1,
+      label: `Simulador ${i + 1}`,
+    }));
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(rosterJson);
+  } catch (error) {
+    throw new Error(
+      `SIMULATOR_ROSTER não é um JSON válido: ${(error as Error).message}`
+    );
+  }
+
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error("SIMULATOR_ROSTER deve ser uma lista não vazia");
+  }
+
+  const seen = new Set<number>();
+
+  return raw.map((entry: unknown) => {
+    const simNum = isPlainObject(entry) ? entry.simNum : undefined;
+    if (
+      !isPlainObject(entry) ||
+      typeof simNum !== "number" ||
+      !Number.isInteger(simNum) ||
+      simNum < 1
+    ) {
+      throw new Error(
+        `Entrada inválida em SIMULATOR_ROSTER (simNum inteiro >= 1): ${JSON.stringify(entry)}`
+      );
+    }
+    if (seen.has(simNum)) {
+      throw new Error(`simNum duplicado em SIMULATOR_ROSTER: ${simNum}`);
+    }
+    seen.add(simNum);
+
+    const rosterEntry: RosterEntry = {
+      simNum,
+      label:
+        typeof entry.label === "string" ? entry.label : `Simulador ${simNum}`,
+    };
+    if (typeof entry.car === "string") rosterEntry.car = entry.car;
+    if (typeof entry.track === "string") rosterEntry.track = entry.track;
+
+    return rosterEntry;
+  });
+}
+
+/**
+ * Lê o backend de armazenamento de eventos (STORAGE_BACKEND)
+ */
+function parseStorageBackend(value: string | undefined): StorageBackend {
+  const backend = (value || "json") as StorageBackend;
+  if (!STORAGE_BACKENDS.includes(backend)) {
+    throw new Error(
+      `STORAGE_BACKEND inválido: "${value}". Use ${STORAGE_BACKENDS.join(" | ")}`
+    );
+  }
+  return backend;
+}
 
 /**
  * Carrega configuração do servidor a partir de variáveis de ambiente
@@ -13,5 +178,25 @@ export function loadConfig(): ServerConfig {
       10
     ),
     reconnectInterval: parseInt(process.env.RECONNECT_INTERVAL || "3000", 10),
+    simulatorStateTtl: parseIntEnv("SIMULATOR_STATE_TTL", 60000),
+    apiTokens: parseApiTokens(process.env.API_TOKENS),
+    roster: parseRoster(
+      process.env.SIMULATOR_ROSTER,
+      process.env.SIMULATOR_COUNT
+    ),
+    inputValidationMode: parseValidationMode(process.env.INPUT_VALIDATION_MODE),
+    deltaKeyframeInterval: parseIntEnv("DELTA_KEYFRAME_INTERVAL", 5000),
+    outputBufferSoftLimit: parseIntEnv("OUTPUT_BUFFER_SOFT_LIMIT", 1048576),
+    outputBufferHardLimit: parseIntEnv("OUTPUT_BUFFER_HARD_LIMIT", 8388608),
+    heartbeatInterval: parseIntEnv("HEARTBEAT_INTERVAL", 10000),
+    heartbeatTimeout: parseIntEnv("HEARTBEAT_TIMEOUT", 30000),
+    presenceStaleAfter: parseIntEnv("PRESENCE_STALE_AFTER", 5000),
+    leaderboardTopN: parseIntEnv("LEADERBOARD_TOP_N", 10),
+    requireEventCreation: process.env.REQUIRE_EVENT_CREATION === "true",
+    storageBackend: parseStorageBackend(process.env.STORAGE_BACKEND),
+    sqlitePath: process.env.SQLITE_PATH || undefined,
+    recordingMaxFileBytes:
+      parseIntEnv("RECORDING_MAX_FILE_MB", 50) * 1024 * 1024,
+    recordingAutostart: process.env.RECORDING_AUTOSTART === "true",
   };
 }
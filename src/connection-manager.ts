@@ -4,9 +4,30 @@ import type {
   Client,
   RawSimulatorData,
   OutputMessage,
+  DeltaOutputMessage,
+  OutputSubscription,
+  OutputOptions,
+  BroadcastScope,
+  SimulatorState,
   ServerStats,
+  ServerConfig,
+  ClientInfo,
+  AuthRole,
+  ReplayTag,
 } from "./types.js";
 import { logger } from "./logger.js";
+import { matchesSubscription } from "./subscription.js";
+import { DEFAULT_EVENT_NAME } from "./best-lap-tracker.js";
+import type { SimulatorRoster } from "./roster.js";
+import { DeltaEncoder } from "./delta.js";
+import { UpdateThrottle } from "./update-throttle.js";
+import { PresenceTracker } from "./presence.js";
+
+// Close code enviado a clientes OUTPUT que não acompanham o fluxo de dados
+export const SLOW_CONSUMER_CLOSE_CODE = 4000;
+
+// Tempo para o close handshake antes de encerrar o socket à força
+const EVICTION_TERMINATE_TIMEOUT_MS = 5000;
 
 /**
  * Gerenciador de conexões WebSocket
@@ -16,11 +37,46 @@ export class ConnectionManager {
   private clients: Map<string, Client> = new Map();
   private startTime: Date = new Date();
   private messageCount: number = 0;
+  private skippedFrames: number = 0;
+  private evictedClients: number = 0;
+  private heartbeatTimer?: NodeJS.Timeout;
+  private roster: SimulatorRoster;
+  private config: ServerConfig;
+  private presence: PresenceTracker;
+
+  constructor(roster: SimulatorRoster, config: ServerConfig) {
+    this.roster = roster;
+    this.config = config;
+
+    // Transições de presença são distribuídas como "simulator-status"
+    this.presence = new PresenceTracker(
+      roster.getAll(),
+      config.presenceStaleAfter,
+      (presence, previousStatus) => {
+        this.broadcast(
+          {
+            type: "simulator-status",
+            data: {
+              ...presence,
+              label: this.roster.get(presence.simNum)?.label,
+              previousStatus,
+            },
+            timestamp: new Date().toISOString(),
+          },
+          { type: "simulator-status", simNum: presence.simNum }
+        );
+      }
+    );
+  }
 
   /**
    * Registra um novo cliente
    */
-  addClient(ws: WebSocket, type: "input" | "output"): string {
+  addClient(
+    ws: WebSocket,
+    type: "input" | "output",
+    role?: AuthRole
+  ): string {
     const id = randomUUID();
     const client: Client = {
       id,
@@ -28,12 +84,24 @@ export class ConnectionManager {
       type,
       connectedAt: new Date(),
       lastActivity: new Date(),
+      role,
     };
 
     this.clients.set(id, client);
-    logger.info(`Cliente ${type.toUpperCase()} conectado`, { id });
+    logger.info(`Cliente ${type.toUpperCase()} conectado`, { id, role });
 
     // Configurar handlers
+    ws.on("message", () => {
+      client.lastActivity = new Date();
+    });
+    ws.on("pong", () => {
+      const now = new Date();
+      client.lastPongAt = now;
+      client.lastActivity = now;
+      if (client.lastPingAt) {
+        client.latencyMs = now.getTime() - client.lastPingAt.getTime();
+      }
+    });
     ws.on("close", () => this.removeClient(id));
     ws.on("error", (error) => {
       logger.error(`Erro no cliente ${id}`, { error: error.message });
@@ -52,6 +120,12 @@ export class ConnectionManager {
 
     logger.info(`Cliente ${client.type.toUpperCase()} desconectado`, { id });
 
+    client.updateThrottle?.dispose();
+
+    if (client.type === "input" && client.simulatorId !== undefined) {
+      this.presence.inputDisconnected(client.simulatorId);
+    }
+
     try {
       client.ws.close();
     } catch (error) {
@@ -66,12 +140,113 @@ export class ConnectionManager {
    */
   setSimulatorId(clientId: string, simulatorId: number): void {
     const client = this.clients.get(clientId);
-    if (client && client.type === "input") {
+    if (client && client.type === "input" && client.simulatorId !== simulatorId) {
+      if (client.simulatorId !== undefined) {
+        this.presence.inputDisconnected(client.simulatorId);
+      }
       client.simulatorId = simulatorId;
+      this.presence.inputConnected(simulatorId);
       logger.debug(`Cliente ${clientId} associado ao simulador ${simulatorId}`);
     }
   }
 
+  /**
+   * Registra a chegada de dados de um simulador (para presença)
+   */
+  recordSimulatorData(simNum: number): void {
+    this.presence.dataReceived(simNum);
+  }
+
+  /**
+   * Inicia o acompanhamento periódico de presença
+   */
+  startPresenceTracking(): void {
+    this.presence.start();
+  }
+
+  /**
+   * Para o acompanhamento periódico de presença
+   */
+  stopPresenceTracking(): void {
+    this.presence.stop();
+  }
+
+  /**
+   * Atualiza a assinatura de um cliente OUTPUT
+   */
+  setSubscription(clientId: string, subscription: OutputSubscription): void {
+    const client = this.clients.get(clientId);
+    if (client && client.type === "output") {
+      client.subscription = subscription;
+      logger.debug(`Assinatura do cliente ${clientId} atualizada`, {
+        subscription,
+      });
+    }
+  }
+
+  /**
+   * Atualiza as opções de entrega de um cliente OUTPUT
+   */
+  setOutputOptions(clientId: string, options: OutputOptions): void {
+    const client = this.clients.get(clientId);
+    if (!client || client.type !== "output") return;
+
+    client.outputOptions = options;
+
+    if (options.mode === "delta" && !client.deltaEncoder) {
+      client.deltaEncoder = new DeltaEncoder(this.config.deltaKeyframeInterval);
+    } else if (options.mode === "full") {
+      client.deltaEncoder = undefined;
+    }
+
+    // Recriar o limitador de taxa com o novo intervalo
+    client.updateThrottle?.dispose();
+    client.updateThrottle = options.maxRate
+      ? new UpdateThrottle(options.maxRate, (data, replay) =>
+          this.sendSimulatorUpdate(client, data, replay)
+        )
+      : undefined;
+
+    logger.debug(`Opções de entrega do cliente ${clientId} atualizadas`, {
+      options,
+    });
+  }
+
+  /**
+   * Reenvia keyframes a um cliente no modo delta (após detectar lacuna na sequência)
+   */
+  resyncClient(
+    clientId: string,
+    states: SimulatorState[],
+    simNum?: number
+  ): void {
+    const client = this.clients.get(clientId);
+    if (!client?.deltaEncoder || client.ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    client.deltaEncoder.reset(simNum);
+
+    for (const state of states) {
+      if (simNum !== undefined && state.simNum !== simNum) continue;
+      if (
+        !matchesSubscription(client.subscription, {
+          type: "simulator-update",
+          simNum: state.simNum,
+          event: state.data.event || DEFAULT_EVENT_NAME,
+        })
+      ) {
+        continue;
+      }
+
+      const message = client.deltaEncoder.encode(
+        state.data,
+        new Date().toISOString()
+      );
+      if (message) client.ws.send(JSON.stringify(message));
+    }
+  }
+
   /**
    * Obtém cliente por ID
    */
@@ -81,37 +256,271 @@ export class ConnectionManager {
 
   /**
    * Distribui dados para todos os clientes OUTPUT
+   * `replay` marca updates reenviados de uma gravação
+   * Retorna quantos clientes receberam o update
    */
-  broadcastToOutputs(data: RawSimulatorData): void {
+  broadcastToOutputs(data: RawSimulatorData, replay?: ReplayTag): number {
     const message: OutputMessage = {
       type: "simulator-update",
       data,
       timestamp: new Date().toISOString(),
     };
+    if (replay) message.replay = replay;
 
+    const sentCount = this.broadcast(
+      message,
+      {
+        type: message.type,
+        simNum: data.simNum,
+        event: data.event || DEFAULT_EVENT_NAME,
+      },
+      (client) => {
+        // Clientes com maxRate: updates acima da taxa são coalescidos
+        if (
+          client.updateThrottle &&
+          !client.updateThrottle.offer(data, replay)
+        ) {
+          return null;
+        }
+        // Clientes no modo delta recebem keyframe ou apenas campos alterados
+        return (
+          client.deltaEncoder &&
+          this.tagReplay(
+            client.deltaEncoder.encode(data, message.timestamp),
+            replay
+          )
+        );
+      }
+    );
+
+    this.messageCount++;
+    logger.debug(
+      `Dados do simulador ${data.simNum} enviados para ${sentCount} cliente(s) OUTPUT`
+    );
+    return sentCount;
+  }
+
+  /**
+   * Envia um update coalescido a um único cliente (chamado pelo UpdateThrottle)
+   */
+  private sendSimulatorUpdate(
+    client: Client,
+    data: RawSimulatorData,
+    replay?: ReplayTag
+  ): void {
+    if (client.ws.readyState !== WebSocket.OPEN) return;
+    if (!this.checkBackpressure(client, true)) return;
+    if (
+      !matchesSubscription(client.subscription, {
+        type: "simulator-update",
+        simNum: data.simNum,
+        event: data.event || DEFAULT_EVENT_NAME,
+      })
+    ) {
+      return;
+    }
+
+    const timestamp = new Date().toISOString();
+    const message: OutputMessage | DeltaOutputMessage | null = this.tagReplay(
+      client.deltaEncoder
+        ? client.deltaEncoder.encode(data, timestamp)
+        : { type: "simulator-update", data, timestamp },
+      replay
+    );
+    if (!message) return;
+
+    try {
+      client.ws.send(JSON.stringify(message));
+      client.lastActivity = new Date();
+    } catch (error) {
+      logger.error(`Erro ao enviar para cliente ${client.id}`, {
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Acrescenta a marca de replay a um update (se houver)
+   */
+  private tagReplay(
+    message: OutputMessage | DeltaOutputMessage | null,
+    replay: ReplayTag | undefined
+  ): OutputMessage | DeltaOutputMessage | null {
+    if (message && replay) message.replay = replay;
+    return message;
+  }
+
+  /**
+   * Envia uma mensagem para os clientes OUTPUT cuja assinatura aceita o escopo
+   * `encodeFor` permite uma versão por cliente (undefined = mensagem padrão,
+   * null = nada a enviar para esse cliente)
+   * Retorna o número de clientes que receberam a mensagem
+   */
+  broadcast(
+    message: object,
+    scope: BroadcastScope,
+    encodeFor?: (client: Client) => object | null | undefined
+  ): number {
     const messageStr = JSON.stringify(message);
     let sentCount = 0;
 
     this.clients.forEach((client) => {
-      if (client.type === "output" && client.ws.readyState === WebSocket.OPEN) {
-        try {
-          client.ws.send(messageStr);
-          client.lastActivity = new Date();
-          sentCount++;
-        } catch (error) {
-          logger.error(`Erro ao enviar para cliente ${client.id}`, {
-            error: (error as Error).message,
-          });
-        }
+      if (client.type !== "output" || client.ws.readyState !== WebSocket.OPEN) {
+        return;
+      }
+      if (!matchesSubscription(client.subscription, scope)) {
+        return;
+      }
+      if (!this.checkBackpressure(client, scope.type === "simulator-update")) {
+        return;
+      }
+
+      const encoded = encodeFor?.(client);
+      if (encoded === null) return;
+
+      try {
+        client.ws.send(encoded ? JSON.stringify(encoded) : messageStr);
+        client.lastActivity = new Date();
+        sentCount++;
+      } catch (error) {
+        logger.error(`Erro ao enviar para cliente ${client.id}`, {
+          error: (error as Error).message,
+        });
       }
     });
 
-    this.messageCount++;
-    logger.debug(
-      `Dados do simulador ${data.simNum} enviados para ${sentCount} cliente(s) OUTPUT`
+    return sentCount;
+  }
+
+  /**
+   * Verifica o buffer de envio de um cliente OUTPUT
+   * Acima do limite rígido desconecta o cliente; acima do limite suave descarta
+   * frames de telemetria (`skippable`). Retorna false se a mensagem não deve ser enviada
+   */
+  private checkBackpressure(client: Client, skippable: boolean): boolean {
+    const buffered = client.ws.bufferedAmount;
+
+    if (buffered > this.config.outputBufferHardLimit) {
+      this.evictSlowConsumer(client, buffered);
+      return false;
+    }
+
+    if (skippable && buffered > this.config.outputBufferSoftLimit) {
+      client.skippedFrames = (client.skippedFrames ?? 0) + 1;
+      this.skippedFrames++;
+      logger.debug(`Frame descartado para cliente lento ${client.id}`, {
+        bufferedAmount: buffered,
+      });
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Desconecta um cliente OUTPUT cujo buffer excedeu o limite rígido
+   */
+  private evictSlowConsumer(client: Client, buffered: number): void {
+    logger.warn(`Cliente ${client.id} desconectado por lentidão`, {
+      bufferedAmount: buffered,
+      hardLimit: this.config.outputBufferHardLimit,
+      skippedFrames: client.skippedFrames ?? 0,
+    });
+    this.evictedClients++;
+
+    try {
+      client.ws.close(SLOW_CONSUMER_CLOSE_CODE, "Slow consumer");
+    } catch (error) {
+      // Ignorar erros ao fechar
+    }
+
+    // Com o buffer travado o close handshake pode nunca completar
+    setTimeout(() => {
+      if (client.ws.readyState !== WebSocket.CLOSED) client.ws.terminate();
+    }, EVICTION_TERMINATE_TIMEOUT_MS).unref();
+
+    this.removeClient(client.id);
+  }
+
+  /**
+   * Inicia o heartbeat: envia pings periódicos e encerra sockets sem resposta
+   */
+  startHeartbeat(): void {
+    if (this.heartbeatTimer) return;
+
+    this.heartbeatTimer = setInterval(
+      () => this.checkHeartbeats(),
+      this.config.heartbeatInterval
     );
   }
 
+  /**
+   * Para o heartbeat
+   */
+  stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+  }
+
+  /**
+   * Encerra clientes sem pong dentro do timeout e envia novos pings
+   */
+  private checkHeartbeats(): void {
+    const now = Date.now();
+
+    this.clients.forEach((client) => {
+      // Sem pong ainda: contar a partir da conexão
+      const lastSeen = (client.lastPongAt ?? client.connectedAt).getTime();
+
+      if (now - lastSeen > this.config.heartbeatTimeout) {
+        logger.warn(
+          `Cliente ${client.type.toUpperCase()} sem resposta ao heartbeat, encerrando`,
+          {
+            id: client.id,
+            simulatorId: client.simulatorId,
+            silentForMs: now - lastSeen,
+          }
+        );
+        client.ws.terminate();
+        this.removeClient(client.id);
+        return;
+      }
+
+      if (client.ws.readyState !== WebSocket.OPEN) return;
+
+      try {
+        client.lastPingAt = new Date();
+        client.ws.ping();
+      } catch (error) {
+        logger.error(`Erro ao enviar ping para cliente ${client.id}`, {
+          error: (error as Error).message,
+        });
+      }
+    });
+  }
+
+  /**
+   * Lista clientes com dados de atividade e latência
+   */
+  getClientInfos(): ClientInfo[] {
+    return Array.from(this.clients.values()).map((client) => ({
+      id: client.id,
+      type: client.type,
+      role: client.role,
+      simulatorId: client.simulatorId,
+      connectedAt: client.connectedAt.toISOString(),
+      lastActivity: client.lastActivity?.toISOString(),
+      lastPongAt: client.lastPongAt?.toISOString(),
+      latencyMs: client.latencyMs,
+      subscription: client.subscription,
+      outputOptions: client.outputOptions,
+      skippedFrames: client.skippedFrames,
+      bufferedAmount: client.ws.bufferedAmount,
+    }));
+  }
+
   /**
    * Obtém estatísticas do servidor
    */
@@ -139,6 +548,12 @@ export class ConnectionManager {
       totalMessages: this.messageCount,
       uptime,
       activeSimulators,
+      roster: this.roster.getAll(),
+      simulators: this.presence.getAll(),
+      backpressure: {
+        skippedFrames: this.skippedFrames,
+        evictedClients: this.evictedClients,
+      },
     };
   }
 
@@ -155,6 +570,7 @@ export class ConnectionManager {
   disconnectAll(): void {
     logger.info("Desconectando todos os clientes");
     this.clients.forEach((client) => {
+      client.updateThrottle?.dispose();
       try {
         client.ws.close();
       } catch (error) {
@@ -0,0 +1,130 @@
+import type {
+  RawSimulatorData,
+  OutputMessage,
+  DeltaOutputMessage,
+} from "./types.js";
+
+/**
+ * Estado do stream de um simulador para um cliente
+ */
+interface SimulatorStream {
+  seq: number;
+  last: RawSimulatorData;
+  lastKeyframeAt: number;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Compara valores não-objeto (primitivos e listas)
+ */
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length && a.every((item, i) => valuesEqual(item, b[i]))
+    );
+  }
+  return false;
+}
+
+/**
+ * Calcula os campos alterados entre dois objetos
+ * Objetos aninhados são comparados recursivamente; listas são substituídas inteiras
+ * Caminhos removidos são acumulados em `removed`
+ */
+export function diffObjects(
+  prev: Record<string, any>,
+  next: Record<string, any>,
+  removed: string[] = [],
+  prefix = ""
+): Record<string, any> | undefined {
+  const changes: Record<string, any> = {};
+  let changed = false;
+
+  for (const key of Object.keys(next)) {
+    const before = prev[key];
+    const after = next[key];
+
+    if (isPlainObject(before) && isPlainObject(after)) {
+      const nested = diffObjects(before, after, removed, `${prefix}${key}.`);
+      if (nested) {
+        changes[key] = nested;
+        changed = true;
+      }
+    } else if (!valuesEqual(before, after)) {
+      changes[key] = after;
+      changed = true;
+    }
+  }
+
+  for (const key of Object.keys(prev)) {
+    if (!(key in next)) removed.push(`${prefix}${key}`);
+  }
+
+  return changed ? changes : undefined;
+}
+
+/**
+ * Codificador delta de um cliente /output
+ * Envia um keyframe completo por simulador e depois apenas os campos alterados,
+ * com keyframes periódicos e número de sequência por simulador
+ */
+export class DeltaEncoder {
+  private streams: Map<number, SimulatorStream> = new Map();
+  private keyframeInterval: number;
+
+  constructor(keyframeInterval: number) {
+    this.keyframeInterval = keyframeInterval;
+  }
+
+  /**
+   * Codifica um update como keyframe ou delta
+   * Retorna null quando nada mudou desde o último envio
+   */
+  encode(
+    data: RawSimulatorData,
+    timestamp: string
+  ): OutputMessage | DeltaOutputMessage | null {
+    const now = Date.now();
+    const stream = this.streams.get(data.simNum);
+
+    if (!stream || now - stream.lastKeyframeAt >= this.keyframeInterval) {
+      const seq = (stream?.seq ?? 0) + 1;
+      this.streams.set(data.simNum, { seq, last: data, lastKeyframeAt: now });
+      return { type: "simulator-update", data, timestamp, seq };
+    }
+
+    const removed: string[] = [];
+    const changes = diffObjects(stream.last, data, removed);
+    if (!changes && removed.length === 0) return null;
+
+    stream.seq++;
+    stream.last = data;
+
+    const message: DeltaOutputMessage = {
+      type: "simulator-delta",
+      simNum: data.simNum,
+      seq: stream.seq,
+      changes: changes ?? {},
+      timestamp,
+    };
+    if (removed.length > 0) message.removed = removed;
+
+    return message;
+  }
+
+  /**
+   * Força keyframe no próximo update (de um simulador ou de todos)
+   * A sequência continua a partir do último valor enviado
+   */
+  reset(simNum?: number): void {
+    for (const [num, stream] of this.streams.entries()) {
+      if (simNum === undefined || num === simNum) {
+        stream.lastKeyframeAt = -Infinity;
+      }
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { promises as fs } from "fs";
+import { dirname, join } from "path";
+import { randomUUID } from "crypto";
+
+/**
+ * Grava um arquivo de forma atômica: escreve em um temporário, sincroniza com
+ * o disco e renomeia por cima do destino (um crash nunca deixa arquivo truncado)
+ * Cada chamada usa seu próprio temporário; a ordem entre gravações
+ * concorrentes do mesmo arquivo fica a cargo de quem chama
+ */
+export async function writeFileAtomic(
+  filepath: string,
+  content: string
+): Promise<void> {
+  const tmpPath = `${filepath}.${randomUUID()}.tmp`;
+  await fs.mkdir(dirname(filepath), { recursive: true });
+
+  try {
+    const handle = await fs.open(tmpPath, "w");
+    try {
+      await handle.writeFile(content, "utf-8");
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    await fs.rename(tmpPath, filepath);
+  } catch (error) {
+    await fs.unlink(tmpPath).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Acrescenta uma linha a um arquivo e sincroniza com o disco
+ */
+export async function appendLineDurably(
+  filepath: string,
+  line: string
+): Promise<void> {
+  await fs.mkdir(dirname(filepath), { recursive: true });
+
+  const handle = await fs.open(filepath, "a");
+  try {
+    await handle.writeFile(line + "\n", "utf-8");
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Copia um arquivo para o diretório de backups (nome com data/hora) e
+ * remove os backups mais antigos além de `maxBackups`
+ * Retorna false se o arquivo de origem não existir
+ */
+export async function rotateBackup(
+  source: string,
+  backupDir: string,
+  maxBackups: number
+): Promise<boolean> {
+  try {
+    await fs.access(source);
+  } catch {
+    return false;
+  }
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  await fs.mkdir(backupDir, { recursive: true });
+  await fs.copyFile(source, join(backupDir, `${stamp}.json`));
+
+  const backups = (await fs.readdir(backupDir))
+    .filter((file) => file.endsWith(".json"))
+    .sort();
+  for (const file of backups.slice(0, -maxBackups)) {
+    await fs.unlink(join(backupDir, file));
+  }
+
+  return true;
+}
@@ -0,0 +1,217 @@
+import { promises as fs } from "fs";
+import { randomUUID } from "crypto";
+import type { ActiveEventState, ScheduledEventSwitch } from "./types.js";
+import { writeFileAtomic } from "./durable-file.js";
+import { logger } from "./logger.js";
+
+/**
+ * Conteúdo persistido (o evento global fica no arquivo do próprio evento)
+ */
+interface PersistedAssignments {
+  simulators: Record<number, string>;
+  schedule: ScheduledEventSwitch[];
+}
+
+// Intervalo de verificação das trocas agendadas
+const SCHEDULE_TICK_MS = 1000;
+
+/**
+ * Resolve o evento de dados que chegam sem "event"
+ * - atribuição do simulador (definida via API) tem prioridade
+ * - depois o evento ativo global
+ * Também mantém as trocas agendadas e as executa via `onDue`
+ */
+export class EventAssignments {
+  private global: string | null = null;
+  private simulators: Map<number, string> = new Map();
+  private schedule: ScheduledEventSwitch[] = [];
+  private filepath: string;
+  private onDue: (entry: ScheduledEventSwitch) => void;
+  private timer?: NodeJS.Timeout;
+  // Última gravação enfileirada (gravações em série)
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(filepath: string, onDue: (entry: ScheduledEventSwitch) => void) {
+    this.filepath = filepath;
+    this.onDue = onDue;
+  }
+
+  /**
+   * Carrega atribuições e agendamentos salvos
+   */
+  async load(): Promise<void> {
+    try {
+      const content = await fs.readFile(this.filepath, "utf-8");
+      const data: PersistedAssignments = JSON.parse(content);
+
+      this.simulators = new Map(
+        Object.entries(data.simulators ?? {}).map(([simNum, event]) => [
+          Number(simNum),
+          event,
+        ])
+      );
+      this.schedule = data.schedule ?? [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.error("Erro ao carregar atribuições de evento", {
+          error: (error as Error).message,
+        });
+      }
+    }
+  }
+
+  /**
+   * Inicia a verificação periódica das trocas agendadas
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.runDue(), SCHEDULE_TICK_MS);
+    this.runDue();
+  }
+
+  /**
+   * Para a verificação periódica
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Evento a aplicar a dados de um simulador sem "event"
+   */
+  resolve(simNum: number): string | undefined {
+    return this.simulators.get(simNum) ?? this.global ?? undefined;
+  }
+
+  /**
+   * Atualiza a cópia do evento ativo global (fonte: arquivos de evento)
+   */
+  setGlobal(event: string | null): void {
+    this.global = event;
+  }
+
+  /**
+   * Atribui (ou remove, com null) o evento de um simulador
+   * Se a gravação falhar, a atribuição anterior é restaurada e o erro repassado
+   */
+  async setForSimulator(simNum: number, event: string | null): Promise<void> {
+    const previous = this.simulators.get(simNum);
+    const assign = (value: string | null | undefined) => {
+      if (value === null || value === undefined) {
+        this.simulators.delete(simNum);
+      } else {
+        this.simulators.set(simNum, value);
+      }
+    };
+
+    assign(event);
+    try {
+      await this.save();
+    } catch (error) {
+      if (this.simulators.get(simNum) === (event ?? undefined)) {
+        assign(previous);
+      }
+      throw error;
+    }
+
+    logger.info(`🎯 Evento do simulador ${simNum}: ${event ?? "(nenhum)"}`);
+  }
+
+  /**
+   * Agenda uma troca de evento
+   * Se a gravação falhar, o agendamento é descartado e o erro repassado
+   */
+  async addSchedule(
+    entry: Omit<ScheduledEventSwitch, "id">
+  ): Promise<ScheduledEventSwitch> {
+    const scheduled: ScheduledEventSwitch = { id: randomUUID(), ...entry };
+    this.insertSchedule(scheduled);
+
+    try {
+      await this.save();
+    } catch (error) {
+      this.schedule = this.schedule.filter((item) => item !== scheduled);
+      throw error;
+    }
+
+    logger.info(`⏰ Troca de evento agendada`, scheduled);
+    return scheduled;
+  }
+
+  /**
+   * Remove uma troca agendada; retorna false se não existir
+   * Se a gravação falhar, o agendamento é mantido e o erro repassado
+   */
+  async removeSchedule(id: string): Promise<boolean> {
+    const removed = this.schedule.find((entry) => entry.id === id);
+    if (!removed) return false;
+
+    this.schedule = this.schedule.filter((entry) => entry !== removed);
+    try {
+      await this.save();
+    } catch (error) {
+      this.insertSchedule(removed);
+      throw error;
+    }
+    return true;
+  }
+
+  /**
+   * Estado completo (evento global, atribuições e agendamentos)
+   */
+  getState(): ActiveEventState {
+    return {
+      global: this.global,
+      simulators: Object.fromEntries(this.simulators),
+      schedule: [...this.schedule],
+    };
+  }
+
+  /**
+   * Executa (e remove) as trocas cujo horário já passou
+   */
+  private runDue(): void {
+    const now = new Date().toISOString();
+    const due = this.schedule.filter((entry) => entry.at <= now);
+    if (due.length === 0) return;
+
+    this.schedule = this.schedule.filter((entry) => entry.at > now);
+    // As trocas são executadas mesmo se a gravação falhar
+    this.save().catch((error) => {
+      logger.error("Erro ao salvar atribuições de evento", {
+        error: (error as Error).message,
+      });
+    });
+
+    for (const entry of due) {
+      logger.info(`⏰ Executando troca de evento agendada`, entry);
+      this.onDue(entry);
+    }
+  }
+
+  private insertSchedule(entry: ScheduledEventSwitch): void {
+    this.schedule.push(entry);
+    this.schedule.sort((a, b) => a.at.localeCompare(b.at));
+  }
+
+  /**
+   * Grava o estado atual depois das gravações já enfileiradas
+   * Rejeita se esta gravação falhar (as seguintes continuam na fila)
+   */
+  private save(): Promise<void> {
+    const data: PersistedAssignments = {
+      simulators: Object.fromEntries(this.simulators),
+      schedule: [...this.schedule],
+    };
+    const content = JSON.stringify(data, null, 2);
+
+    const write = this.saving.then(() =>
+      writeFileAtomic(this.filepath, content)
+    );
+    this.saving = write.catch(() => {});
+    return write;
+  }
+}
@@ -0,0 +1,164 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import { writeFileAtomic, rotateBackup } from "./durable-file.js";
+import type { StorageBackend } from "./types.js";
+
+/**
+ * Forma mínima dos dados de evento conhecida pelo armazenamento
+ * O histórico de voltas fica separado para o SQLite gravá-lo por linha
+ */
+export interface StoredEvent {
+  eventName: string;
+  laps?: Record<string, unknown[]>;
+}
+
+/**
+ * Resultado da leitura de um evento
+ */
+export type EventLoadResult<T> =
+  | { status: "ok"; data: T }
+  | { status: "missing" }
+  | { status: "corrupt"; error: string };
+
+/**
+ * Interpreta o conteúdo gravado de um evento
+ * JSON válido que não é um objeto (null, listas, números) é corrompido
+ */
+export function parseStoredEvent<T extends StoredEvent>(
+  content: string
+): EventLoadResult<T> {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    return { status: "corrupt", error: (error as Error).message };
+  }
+
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return {
+      status: "corrupt",
+      error: `Esperado um objeto JSON, encontrado ${
+        data === null ? "null" : Array.isArray(data) ? "array" : typeof data
+      }`,
+    };
+  }
+  return { status: "ok", data: data as T };
+}
+
+/**
+ * Armazenamento persistente de eventos, indexado pelo nome sanitizado
+ */
+export interface EventStorage<T extends StoredEvent> {
+  readonly kind: StorageBackend;
+
+  /**
+   * Descreve onde o evento é gravado (para logs e /events)
+   */
+  describe(key: string): string;
+
+  /**
+   * Lista as chaves dos eventos gravados
+   */
+  list(): Promise<string[]>;
+
+  load(key: string): Promise<EventLoadResult<T>>;
+
+  /**
+   * Grava o evento de forma durável (com backup rotativo)
+   */
+  save(key: string, data: T): Promise<void>;
+
+  close(): Promise<void>;
+}
+
+/**
+ * Política de backups rotativos
+ */
+export interface BackupPolicy {
+  dir: string;
+  intervalMs: number; // No máximo um backup por intervalo
+  maxBackups: number;
+}
+
+/**
+ * Armazenamento em arquivos data/<evento>.json (um por evento)
+ */
+export class JsonEventStorage<T extends StoredEvent>
+  implements EventStorage<T>
+{
+  readonly kind = "json";
+  private dir: string;
+  private backups?: BackupPolicy;
+  // Último conteúdo gravado por arquivo (o watcher ignora as próprias escritas)
+  private lastWritten: Map<string, string> = new Map();
+  private lastBackupAt: Map<string, number> = new Map();
+
+  constructor(dir: string, backups?: BackupPolicy) {
+    this.dir = dir;
+    this.backups = backups;
+  }
+
+  describe(key: string): string {
+    return `${key}.json`;
+  }
+
+  async list(): Promise<string[]> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const files = await fs.readdir(this.dir);
+    return files
+      .filter((f) => f.endsWith(".json"))
+      .map((f) => f.replace(".json", ""));
+  }
+
+  /**
+   * Só a ausência do arquivo conta como "missing"; outros erros de leitura
+   * (permissão, E/S) são relançados para o evento não ser recriado por cima
+   */
+  async load(key: string): Promise<EventLoadResult<T>> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filepath(key), "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return { status: "missing" };
+      }
+      throw error;
+    }
+
+    return parseStoredEvent<T>(content);
+  }
+
+  async save(key: string, data: T): Promise<void> {
+    const filepath = this.filepath(key);
+    const content = JSON.stringify(data, null, 2);
+
+    const now = Date.now();
+    if (
+      this.backups &&
+      now - (this.lastBackupAt.get(key) ?? 0) >= this.backups.intervalMs
+    ) {
+      await rotateBackup(
+        filepath,
+        join(this.backups.dir, key),
+        this.backups.maxBackups
+      );
+      this.lastBackupAt.set(key, now);
+    }
+
+    this.lastWritten.set(key, content);
+    await writeFileAtomic(filepath, content);
+  }
+
+  /**
+   * Verifica se o conteúdo do arquivo é a última gravação feita por este processo
+   */
+  isOwnWrite(key: string, content: string): boolean {
+    return this.lastWritten.get(key) === content;
+  }
+
+  async close(): Promise<void> {}
+
+  private filepath(key: string): string {
+    return join(this.dir, `${key}.json`);
+  }
+}
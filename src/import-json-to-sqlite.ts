@@ -0,0 +1,41 @@
+import { loadConfig } from "./config.js";
+import { logger } from "./logger.js";
+import {
+  initStorage,
+  closeStorage,
+  importJsonEvents,
+  DEFAULT_SQLITE_PATH,
+} from "./best-lap-tracker.js";
+
+/**
+ * Importação única dos arquivos data/*.json para o banco SQLite
+ * Uso: npm run build && npm run import:sqlite (com o servidor parado)
+ */
+async function main() {
+  const config = loadConfig();
+  const sqlitePath = config.sqlitePath ?? DEFAULT_SQLITE_PATH;
+
+  await initStorage("sqlite", sqlitePath);
+  const result = await importJsonEvents();
+  await closeStorage();
+
+  logger.info(`📥 Importação concluída para ${sqlitePath}`, {
+    imported: result.imported,
+    skipped: result.skipped,
+  });
+
+  for (const { key, error } of result.failed) {
+    logger.error(`Falha ao importar ${key}.json`, { error });
+  }
+
+  if (config.storageBackend !== "sqlite") {
+    logger.warn("Defina STORAGE_BACKEND=sqlite para o servidor usar o banco");
+  }
+
+  process.exit(result.failed.length > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  logger.error("Erro fatal", { error: error.message });
+  process.exit(1);
+});
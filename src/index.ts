@@ -12,7 +12,11 @@ async function main() {
 
   // Carregar configuração
   const config = loadConfig();
-  logger.info("Configuração carregada", config);
+  logger.info("Configuração carregada", {
+    ...config,
+    // Não registrar os tokens em log
+    apiTokens: config.apiTokens.map(({ role, simNum }) => ({ role, simNum })),
+  });
 
   // Criar servidor
   const server = new WebSocketSimulatorServer(config);
@@ -0,0 +1,120 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import { appendLineDurably, writeFileAtomic } from "./durable-file.js";
+import { logger } from "./logger.js";
+
+/**
+ * Entrada do journal: estado completo de um registro após a mudança
+ * `seq` cresce por evento; o arquivo do evento guarda o último seq aplicado
+ */
+export interface JournalEntry<T = unknown> {
+  seq: number;
+  event: string;
+  op: "set-record";
+  key: string;
+  record: T;
+  at: string;
+}
+
+/**
+ * Journal (write-ahead) de mudanças de melhor volta, um arquivo NDJSON por
+ * evento. Entradas são gravadas antes do arquivo do evento e descartadas
+ * (compactadas) depois que ele é salvo
+ */
+export class EventJournal {
+  private dir: string;
+  // Operações por arquivo em série (append x compactação)
+  private locks: Map<string, Promise<unknown>> = new Map();
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * Acrescenta uma entrada e sincroniza com o disco
+   */
+  append(filename: string, entry: JournalEntry): Promise<void> {
+    return this.withLock(filename, () =>
+      appendLineDurably(this.pathFor(filename), JSON.stringify(entry))
+    );
+  }
+
+  /**
+   * Descarta as entradas já gravadas no arquivo do evento (seq <= savedSeq)
+   */
+  compact(filename: string, savedSeq: number): Promise<void> {
+    return this.withLock(filename, async () => {
+      const entries = await this.read(filename);
+      const remaining = entries.filter((entry) => entry.seq > savedSeq);
+      if (remaining.length === entries.length) return;
+
+      if (remaining.length === 0) {
+        await fs.rm(this.pathFor(filename), { force: true });
+      } else {
+        await writeFileAtomic(
+          this.pathFor(filename),
+          remaining.map((entry) => JSON.stringify(entry) + "\n").join("")
+        );
+      }
+    });
+  }
+
+  /**
+   * Lê todos os journals pendentes (arquivo do evento → entradas)
+   */
+  async readAll(): Promise<Map<string, JournalEntry[]>> {
+    const journals = new Map<string, JournalEntry[]>();
+
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return journals;
+      throw error;
+    }
+
+    for (const file of files.filter((f) => f.endsWith(".ndjson"))) {
+      const filename = file.replace(".ndjson", "");
+      const entries = await this.withLock(filename, () => this.read(filename));
+      if (entries.length > 0) journals.set(filename, entries);
+    }
+
+    return journals;
+  }
+
+  /**
+   * Lê as entradas de um journal
+   * Uma última linha incompleta (crash durante a escrita) é ignorada
+   */
+  private async read(filename: string): Promise<JournalEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.pathFor(filename), "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const entries: JournalEntry[] = [];
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        logger.warn(`Linha inválida ignorada no journal ${filename}.ndjson`);
+      }
+    }
+    return entries;
+  }
+
+  private pathFor(filename: string): string {
+    return join(this.dir, `${filename}.ndjson`);
+  }
+
+  private withLock<T>(filename: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(filename) ?? Promise.resolve();
+    const next = previous.catch(() => {}).then(fn);
+    this.locks.set(filename, next);
+    return next;
+  }
+}
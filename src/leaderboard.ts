@@ -0,0 +1,166 @@
+import type {
+  LeaderboardEntry,
+  LeaderboardQuery,
+  LeaderboardCombination,
+} from "./types.js";
+
+/**
+ * Registro mínimo necessário para ranquear um piloto
+ */
+export interface RankableRecord {
+  pilotName: string;
+  bestLapTime: number;
+  car: string;
+  track: string;
+  simNum: number;
+  timestamp: string;
+  isValid?: boolean;
+}
+
+/**
+ * Resultado da interpretação da query do leaderboard
+ */
+export type LeaderboardQueryParseResult =
+  | { query: LeaderboardQuery; error?: undefined }
+  | { query?: undefined; error: string };
+
+/**
+ * Chave de um registro: piloto + pista + carro
+ * (o mesmo piloto pode ter um tempo por combinação no evento)
+ */
+export function recordKey(
+  pilotName: string,
+  track: string,
+  car: string
+): string {
+  return `${pilotName}|${track}|${car}`;
+}
+
+export const DEFAULT_LEADERBOARD_LIMIT = 50;
+export const MAX_LEADERBOARD_LIMIT = 500;
+
+/**
+ * Filtra e ordena registros por melhor volta, calculando posição e gaps
+ * As posições são relativas ao conjunto filtrado (ex: ranking por carro)
+ * `lapCounts` é indexado por `recordKey`
+ */
+export function rankRecords(
+  records: RankableRecord[],
+  lapCounts: Record<string, number>,
+  query: LeaderboardQuery = {}
+): LeaderboardEntry[] {
+  const filtered = records.filter(
+    (record) =>
+      (query.car === undefined || record.car === query.car) &&
+      (query.track === undefined || record.track === query.track) &&
+      (query.simNum === undefined || record.simNum === query.simNum)
+  );
+
+  // Empate: quem registrou a volta primeiro fica à frente
+  const sorted = [...filtered].sort(
+    (a, b) =>
+      a.bestLapTime - b.bestLapTime || a.timestamp.localeCompare(b.timestamp)
+  );
+
+  const leaderTime = sorted[0]?.bestLapTime ?? 0;
+
+  return sorted.map((record, index) => {
+    const entry: LeaderboardEntry = {
+      position: index + 1,
+      pilotName: record.pilotName,
+      bestLapTime: record.bestLapTime,
+      gapToLeader: record.bestLapTime - leaderTime,
+      gapToAhead:
+        index === 0 ? 0 : record.bestLapTime - sorted[index - 1].bestLapTime,
+      lapCount:
+        lapCounts[recordKey(record.pilotName, record.track, record.car)] ?? 0,
+      car: record.car,
+      track: record.track,
+      simNum: record.simNum,
+      timestamp: record.timestamp,
+    };
+    if (record.isValid === false) entry.isValid = false;
+    return entry;
+  });
+}
+
+/**
+ * Agrupa registros por combinação pista + carro, com o líder de cada uma
+ */
+export function listCombinations(
+  records: RankableRecord[]
+): LeaderboardCombination[] {
+  const combinations = new Map<string, LeaderboardCombination>();
+
+  for (const record of records) {
+    const key = `${record.track}|${record.car}`;
+    const current = combinations.get(key);
+
+    if (!current) {
+      combinations.set(key, {
+        track: record.track,
+        car: record.car,
+        entries: 1,
+        bestLapTime: record.bestLapTime,
+        leader: record.pilotName,
+      });
+    } else {
+      current.entries++;
+      if (record.bestLapTime < current.bestLapTime) {
+        current.bestLapTime = record.bestLapTime;
+        current.leader = record.pilotName;
+      }
+    }
+  }
+
+  return Array.from(combinations.values()).sort(
+    (a, b) => a.track.localeCompare(b.track) || a.car.localeCompare(b.car)
+  );
+}
+
+/**
+ * Interpreta filtros e paginação da query string
+ * Retorna mensagem de erro para valores inválidos
+ */
+export function parseLeaderboardQuery(
+  query: Record<string, string | string[] | undefined>
+): LeaderboardQueryParseResult {
+  const first = (value: string | string[] | undefined) =>
+    Array.isArray(value) ? value[0] : value;
+
+  const parsed: LeaderboardQuery = {};
+  const car = first(query.car);
+  const track = first(query.track);
+  const simNum = first(query.simNum);
+  const offset = first(query.offset);
+  const limit = first(query.limit);
+
+  if (car) parsed.car = car;
+  if (track) parsed.track = track;
+
+  if (simNum !== undefined) {
+    const value = Number(simNum);
+    if (!Number.isInteger(value)) return { error: `simNum inválido: ${simNum}` };
+    parsed.simNum = value;
+  }
+
+  if (offset !== undefined) {
+    const value = Number(offset);
+    if (!Number.isInteger(value) || value < 0) {
+      return { error: `offset inválido: ${offset}` };
+    }
+    parsed.offset = value;
+  }
+
+  if (limit !== undefined) {
+    const value = Number(limit);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_LEADERBOARD_LIMIT) {
+      return {
+        error: `limit inválido: ${limit} (entre 1 e ${MAX_LEADERBOARD_LIMIT})`,
+      };
+    }
+    parsed.limit = value;
+  }
+
+  return { query: parsed };
+}
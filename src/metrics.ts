@@ -0,0 +1,317 @@
+import { monitorEventLoopDelay } from "perf_hooks";
+import type { IntervalHistogram } from "perf_hooks";
+
+type Labels = Record<string, string | number>;
+
+// Prefixo de todas as métricas expostas em /metrics
+const PREFIX = "simulator_server_";
+
+// Limites (s) do histograma de latência de broadcast
+const LATENCY_BUCKETS = [
+  0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1,
+];
+
+// Intervalo de amostragem do atraso do event loop (ms); as amostras incluem
+// o próprio intervalo, descontado na coleta
+const LOOP_RESOLUTION_MS = 20;
+
+// Janela dos quantis do atraso do event loop (ms)
+const LOOP_WINDOW_MS = 60_000;
+
+/**
+ * Valores lidos no momento da coleta (estado de outros módulos)
+ */
+export interface MetricsSnapshot {
+  inputClients: number;
+  outputClients: number;
+  skippedFrames: number; // Frames descartados por backpressure
+  evictedClients: number; // Clientes desconectados por backpressure
+  pendingWrites: number; // Gravações de eventos aguardando o debounce
+  recordingDropped: number; // Updates descartados pela gravação de telemetria
+  uptime: number; // segundos
+}
+
+function escapeLabelValue(value: string | number): string {
+  return String(value)
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+/**
+ * Formata labels no padrão Prometheus ({sim="1",reason="schema"})
+ */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+/**
+ * Converte uma amostra do atraso do event loop (ns) em segundos de atraso
+ */
+function lagSeconds(ns: number): number {
+  return Math.max(0, ns / 1e6 - LOOP_RESOLUTION_MS) / 1000;
+}
+
+/**
+ * Resumo do atraso do event loop
+ * Quantis da última janela completa (LOOP_WINDOW_MS); soma e contagem
+ * acumuladas desde o início
+ */
+class LoopLagSummary {
+  private name = PREFIX + "event_loop_lag_seconds";
+  private histogram: IntervalHistogram = monitorEventLoopDelay({
+    resolution: LOOP_RESOLUTION_MS,
+  });
+  private quantiles: { quantile: number; value: number }[] = [];
+  private sum = 0;
+  private count = 0;
+  private timer?: NodeJS.Timeout;
+
+  start(): void {
+    this.histogram.enable();
+    this.timer = setInterval(() => this.closeWindow(), LOOP_WINDOW_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    this.histogram.disable();
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  render(): string[] {
+    return [
+      ...header(
+        this.name,
+        `Atraso do event loop (quantis da última janela de ${LOOP_WINDOW_MS / 1000}s)`,
+        "summary"
+      ),
+      ...this.quantiles.map(
+        ({ quantile, value }) => `${this.name}{quantile="${quantile}"} ${value}`
+      ),
+      `${this.name}_sum ${this.sum}`,
+      `${this.name}_count ${this.count}`,
+    ];
+  }
+
+  /**
+   * Fecha a janela atual: guarda os quantis, acumula soma e contagem e
+   * reinicia o histograma
+   */
+  private closeWindow(): void {
+    const { count, mean } = this.histogram;
+    if (count === 0) return;
+
+    this.quantiles = [
+      { quantile: 0.5, value: lagSeconds(this.histogram.percentile(50)) },
+      { quantile: 0.99, value: lagSeconds(this.histogram.percentile(99)) },
+      { quantile: 1, value: lagSeconds(this.histogram.max) },
+    ];
+    this.sum += count * lagSeconds(mean);
+    this.count += count;
+    this.histogram.reset();
+  }
+}
+
+/**
+ * Contador com labels
+ */
+class Counter {
+  private name: string;
+  private help: string;
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  constructor(name: string, help: string) {
+    this.name = PREFIX + name;
+    this.help = help;
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = formatLabels(labels);
+    const current = this.values.get(key);
+    if (current) {
+      current.value += value;
+    } else {
+      this.values.set(key, { labels, value });
+    }
+  }
+
+  render(): string[] {
+    return [
+      ...header(this.name, this.help, "counter"),
+      ...Array.from(this.values.values()).map(
+        ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+      ),
+    ];
+  }
+}
+
+/**
+ * Histograma sem labels (buckets cumulativos)
+ */
+class Histogram {
+  private name: string;
+  private help: string;
+  private buckets: number[];
+  private counts: number[];
+  private sum = 0;
+  private count = 0;
+
+  constructor(name: string, help: string, buckets: number[]) {
+    this.name = PREFIX + name;
+    this.help = help;
+    this.buckets = buckets;
+    this.counts = buckets.map(() => 0);
+  }
+
+  observe(value: number): void {
+    this.sum += value;
+    this.count++;
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) this.counts[i]++;
+    });
+  }
+
+  render(): string[] {
+    return [
+      ...header(this.name, this.help, "histogram"),
+      ...this.buckets.map(
+        (bound, i) => `${this.name}_bucket{le="${bound}"} ${this.counts[i]}`
+      ),
+      `${this.name}_bucket{le="+Inf"} ${this.count}`,
+      `${this.name}_sum ${this.sum}`,
+      `${this.name}_count ${this.count}`,
+    ];
+  }
+}
+
+/**
+ * Métricas do servidor no formato de texto do Prometheus
+ * Contadores são alimentados pelo servidor; os demais valores são lidos
+ * na coleta (MetricsSnapshot)
+ */
+export class ServerMetrics {
+  private messagesReceived = new Counter(
+    "messages_received_total",
+    "Updates aceitos em /input e POST /api/input, por simulador"
+  );
+  private messagesSent = new Counter(
+    "messages_sent_total",
+    "Updates entregues a clientes OUTPUT, por simulador"
+  );
+  private invalidMessages = new Counter(
+    "invalid_messages_total",
+    "Mensagens recusadas na entrada, por motivo"
+  );
+  private broadcastLatency = new Histogram(
+    "broadcast_latency_seconds",
+    "Tempo entre o recebimento de um update e o envio aos clientes OUTPUT",
+    LATENCY_BUCKETS
+  );
+  private loopLag = new LoopLagSummary();
+
+  /**
+   * Inicia a medição do atraso do event loop
+   */
+  start(): void {
+    this.loopLag.start();
+  }
+
+  stop(): void {
+    this.loopLag.stop();
+  }
+
+  /**
+   * Registra um update aceito (transport: ws | http)
+   */
+  recordReceived(simNum: number, transport: "ws" | "http"): void {
+    this.messagesReceived.inc({ sim: simNum, transport });
+  }
+
+  /**
+   * Registra o envio de um update a `sent` clientes OUTPUT
+   * `receivedAt` = performance.now() no recebimento (ausente em replays)
+   */
+  recordBroadcast(simNum: number, sent: number, receivedAt?: number): void {
+    if (sent > 0) this.messagesSent.inc({ sim: simNum }, sent);
+    if (receivedAt !== undefined) {
+      this.broadcastLatency.observe((performance.now() - receivedAt) / 1000);
+    }
+  }
+
+  /**
+   * Registra uma mensagem recusada
+   * (json, format, schema ou forbidden-sim)
+   */
+  recordInvalid(reason: string): void {
+    this.invalidMessages.inc({ reason });
+  }
+
+  /**
+   * Gera o texto de /metrics
+   */
+  render(snapshot: MetricsSnapshot): string {
+    const gauge = (name: string, help: string, value: number) => [
+      ...header(PREFIX + name, help, "gauge"),
+      `${PREFIX}${name} ${value}`,
+    ];
+    const counter = (name: string, help: string, value: number) => [
+      ...header(PREFIX + name, help, "counter"),
+      `${PREFIX}${name} ${value}`,
+    ];
+
+    const lines = [
+      ...gauge(
+        "input_clients",
+        "Conexões INPUT abertas",
+        snapshot.inputClients
+      ),
+      ...gauge(
+        "output_clients",
+        "Conexões OUTPUT abertas",
+        snapshot.outputClients
+      ),
+      ...this.messagesReceived.render(),
+      ...this.messagesSent.render(),
+      ...this.invalidMessages.render(),
+      ...counter(
+        "dropped_frames_total",
+        "Frames de telemetria descartados para clientes lentos",
+        snapshot.skippedFrames
+      ),
+      ...counter(
+        "evicted_clients_total",
+        "Clientes OUTPUT desconectados por lentidão",
+        snapshot.evictedClients
+      ),
+      ...counter(
+        "recording_dropped_updates_total",
+        "Updates não gravados na gravação de telemetria (disco lento)",
+        snapshot.recordingDropped
+      ),
+      ...this.broadcastLatency.render(),
+      ...gauge(
+        "pending_writes",
+        "Eventos com gravação pendente (debounce)",
+        snapshot.pendingWrites
+      ),
+      ...this.loopLag.render(),
+      ...gauge(
+        "uptime_seconds",
+        "Tempo desde o início do servidor",
+        snapshot.uptime
+      ),
+    ];
+
+    return lines.join("\n") + "\n";
+  }
+}
@@ -0,0 +1,83 @@
+import type { OutputOptions } from "./types.js";
+
+/**
+ * Resultado da normalização das opções de entrega
+ */
+export type OutputOptionsParseResult =
+  | { options: OutputOptions; error?: undefined }
+  | { options?: undefined; error: string };
+
+export const DEFAULT_OUTPUT_OPTIONS: OutputOptions = { mode: "full" };
+
+const OUTPUT_MODES: OutputOptions["mode"][] = ["full", "delta"];
+const MAX_RATE_LIMIT = 1000; // Hz
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isOutputMode(value: unknown): value is OutputOptions["mode"] {
+  return OUTPUT_MODES.includes(value as OutputOptions["mode"]);
+}
+
+/**
+ * Valida e aplica opções recebidas via mensagem "configure"
+ * Campos omitidos mantêm o valor atual
+ */
+export function normalizeOutputOptions(
+  raw: unknown,
+  current: OutputOptions = DEFAULT_OUTPUT_OPTIONS
+): OutputOptionsParseResult {
+  if (!isPlainObject(raw)) {
+    return { error: "Opções de entrega devem ser um objeto" };
+  }
+
+  const options: OutputOptions = { ...current };
+  const { mode, maxRate } = raw;
+
+  if (mode !== undefined) {
+    if (!isOutputMode(mode)) {
+      return {
+        error: `Campo 'mode' inválido: ${mode}. Use ${OUTPUT_MODES.join(" | ")}`,
+      };
+    }
+    options.mode = mode;
+  }
+
+  // maxRate: null ou 0 remove o limite
+  if (maxRate !== undefined) {
+    if (maxRate === null || maxRate === 0) {
+      delete options.maxRate;
+    } else if (
+      typeof maxRate !== "number" ||
+      !Number.isFinite(maxRate) ||
+      maxRate < 0 ||
+      maxRate > MAX_RATE_LIMIT
+    ) {
+      return {
+        error: `Campo 'maxRate' inválido: ${maxRate}. Use um número entre 0 e ${MAX_RATE_LIMIT} (Hz)`,
+      };
+    } else {
+      options.maxRate = maxRate;
+    }
+  }
+
+  return { options };
+}
+
+/**
+ * Monta as opções de entrega a partir da query string (?mode=delta&maxRate=10)
+ */
+export function parseOutputOptionsQuery(
+  query: Record<string, string | string[] | undefined>
+): OutputOptionsParseResult {
+  const mode = Array.isArray(query.mode) ? query.mode[0] : query.mode;
+  const maxRate = Array.isArray(query.maxRate)
+    ? query.maxRate[0]
+    : query.maxRate;
+
+  return normalizeOutputOptions({
+    mode,
+    maxRate: maxRate === undefined ? undefined : Number(maxRate),
+  });
+}
@@ -0,0 +1,170 @@
+import type {
+  PresenceStatus,
+  SimulatorPresence,
+  RosterEntry,
+} from "./types.js";
+import { logger } from "./logger.js";
+
+/**
+ * Estado interno de presença de um simulador
+ */
+interface PresenceEntry {
+  simNum: number;
+  status: PresenceStatus;
+  connections: number;
+  connectedSince?: number;
+  lastDataAt?: number;
+  changedAt: number;
+}
+
+// Intervalo de reavaliação (streaming → stale sem novos eventos)
+const PRESENCE_TICK_MS = 1000;
+
+/**
+ * Acompanha a presença de cada simulador a partir das conexões INPUT
+ * e da chegada de dados
+ * - disconnected: nenhuma conexão e nenhum dado recente
+ * - connected: conectado, mas sem dados desde a conexão
+ * - streaming: dados recebidos há menos de `staleAfter` ms
+ * - stale: conectado, mas sem dados há mais de `staleAfter` ms
+ */
+export class PresenceTracker {
+  private entries: Map<number, PresenceEntry> = new Map();
+  private staleAfter: number;
+  private onChange: (
+    presence: SimulatorPresence,
+    previous: PresenceStatus
+  ) => void;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    roster: RosterEntry[],
+    staleAfter: number,
+    onChange: (presence: SimulatorPresence, previous: PresenceStatus) => void
+  ) {
+    this.staleAfter = staleAfter;
+    this.onChange = onChange;
+
+    for (const { simNum } of roster) {
+      this.getEntry(simNum);
+    }
+  }
+
+  /**
+   * Inicia a reavaliação periódica
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      for (const entry of this.entries.values()) this.evaluate(entry);
+    }, PRESENCE_TICK_MS);
+  }
+
+  /**
+   * Para a reavaliação periódica
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Registra uma conexão INPUT associada ao simulador
+   */
+  inputConnected(simNum: number): void {
+    const entry = this.getEntry(simNum);
+    if (entry.connections === 0) entry.connectedSince = Date.now();
+    entry.connections++;
+    this.evaluate(entry);
+  }
+
+  /**
+   * Registra o fim de uma conexão INPUT associada ao simulador
+   */
+  inputDisconnected(simNum: number): void {
+    const entry = this.getEntry(simNum);
+    entry.connections = Math.max(0, entry.connections - 1);
+    if (entry.connections === 0) entry.connectedSince = undefined;
+    this.evaluate(entry);
+  }
+
+  /**
+   * Registra a chegada de dados do simulador (WebSocket ou HTTP)
+   */
+  dataReceived(simNum: number): void {
+    const entry = this.getEntry(simNum);
+    entry.lastDataAt = Date.now();
+    this.evaluate(entry);
+  }
+
+  /**
+   * Lista a presença de todos os simuladores conhecidos
+   */
+  getAll(): SimulatorPresence[] {
+    return Array.from(this.entries.values())
+      .sort((a, b) => a.simNum - b.simNum)
+      .map((entry) => this.toPresence(entry));
+  }
+
+  private getEntry(simNum: number): PresenceEntry {
+    let entry = this.entries.get(simNum);
+    if (!entry) {
+      entry = {
+        simNum,
+        status: "disconnected",
+        connections: 0,
+        changedAt: Date.now(),
+      };
+      this.entries.set(simNum, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Recalcula o estado e notifica em caso de transição
+   */
+  private evaluate(entry: PresenceEntry): void {
+    const now = Date.now();
+    const fresh =
+      entry.lastDataAt !== undefined &&
+      now - entry.lastDataAt <= this.staleAfter;
+
+    let status: PresenceStatus;
+    if (fresh) {
+      status = "streaming";
+    } else if (entry.connections === 0) {
+      status = "disconnected";
+    } else if (
+      entry.lastDataAt === undefined ||
+      entry.lastDataAt < (entry.connectedSince ?? 0)
+    ) {
+      status = "connected";
+    } else {
+      status = "stale";
+    }
+
+    if (status === entry.status) return;
+
+    const previous = entry.status;
+    entry.status = status;
+    entry.changedAt = now;
+
+    logger.info(`Simulador ${entry.simNum}: ${previous} → ${status}`);
+    this.onChange(this.toPresence(entry), previous);
+  }
+
+  private toPresence(entry: PresenceEntry): SimulatorPresence {
+    return {
+      simNum: entry.simNum,
+      status: entry.status,
+      connections: entry.connections,
+      lastDataAt:
+        entry.lastDataAt !== undefined
+          ? new Date(entry.lastDataAt).toISOString()
+          : undefined,
+      since: new Date(entry.changedAt).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,224 @@
+import type { EventResults, LeaderboardEntry } from "./types.js";
+
+export type ExportFormat = "csv" | "json" | "html";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "json", "html"];
+
+/**
+ * Coluna da planilha de resultados
+ */
+interface ExportColumn {
+  header: string;
+  value: (entry: LeaderboardEntry, eventName: string) => string | number;
+}
+
+const COLUMNS: ExportColumn[] = [
+  { header: "Evento", value: (_, eventName) => eventName },
+  { header: "Pista", value: (entry) => entry.track },
+  { header: "Carro", value: (entry) => entry.car },
+  { header: "Posição", value: (entry) => entry.position },
+  { header: "Piloto", value: (entry) => entry.pilotName },
+  {
+    header: "Melhor volta",
+    value: (entry) => formatLapTime(entry.bestLapTime),
+  },
+  { header: "Melhor volta (ms)", value: (entry) => entry.bestLapTime },
+  { header: "Gap", value: (entry) => formatGap(entry.gapToLeader) },
+  { header: "Voltas", value: (entry) => entry.lapCount },
+  { header: "Simulador", value: (entry) => entry.simNum },
+  { header: "Registrado em", value: (entry) => entry.timestamp },
+  {
+    header: "Válida",
+    value: (entry) => (entry.isValid === false ? "não" : "sim"),
+  },
+];
+
+// BOM para planilhas reconhecerem o CSV como UTF-8 (acentos)
+const UTF8_BOM = "\uFEFF";
+
+/**
+ * Formata um tempo de volta em m:ss.mmm (ex: 85234 → 1:25.234)
+ */
+export function formatLapTime(ms: number): string {
+  const total = Math.round(ms);
+  const minutes = Math.floor(total / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const milliseconds = total % 1000;
+
+  return `${minutes}:${String(seconds).padStart(2, "0")}.${String(
+    milliseconds
+  ).padStart(3, "0")}`;
+}
+
+/**
+ * Formata o gap para o líder (vazio para o líder, +s.mmm ou +m:ss.mmm)
+ */
+export function formatGap(ms: number): string {
+  if (ms <= 0) return "";
+  if (ms < 60000) return `+${(ms / 1000).toFixed(3)}`;
+  return `+${formatLapTime(ms)}`;
+}
+
+/**
+ * Nome de arquivo seguro para o download de um evento
+ */
+export function exportFilename(eventName: string, extension: string): string {
+  const base = eventName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${base || "evento"}-resultados.${extension}`;
+}
+
+/**
+ * Escapa uma célula do CSV
+ * Textos que uma planilha interpretaria como fórmula (=, +, -, @, tab, CR no
+ * início, ex: nome de piloto "=HYPERLINK(...)") ganham um ' na frente; gaps
+ * como "+0.476" são apenas números e ficam como estão
+ */
+function escapeCsv(value: string | number): string {
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text) && !/^[+-]?\d[\d.:]*$/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeHtml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Planilha de resultados em CSV (uma linha por piloto + pista + carro)
+ */
+export function resultsToCsv(results: EventResults): string {
+  const { eventName } = results.event;
+  const lines = [
+    COLUMNS.map((column) => escapeCsv(column.header)).join(","),
+    ...results.entries.map((entry) =>
+      COLUMNS.map((column) => escapeCsv(column.value(entry, eventName))).join(
+        ","
+      )
+    ),
+  ];
+
+  return UTF8_BOM + lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * Resultados em JSON, com tempos também formatados
+ */
+export function resultsToJson(results: EventResults): object {
+  return {
+    event: results.event,
+    exportedAt: new Date().toISOString(),
+    entries: results.entries.map((entry) => ({
+      ...entry,
+      bestLap: formatLapTime(entry.bestLapTime),
+      gap: formatGap(entry.gapToLeader),
+    })),
+  };
+}
+
+/**
+ * Linha da tabela HTML de uma combinação
+ */
+function htmlRow(entry: LeaderboardEntry): string {
+  const cells = [
+    `<td>${entry.position}</td>`,
+    `<td>${escapeHtml(entry.pilotName)}</td>`,
+    `<td class="time">${formatLapTime(entry.bestLapTime)}</td>`,
+    `<td class="time">${formatGap(entry.gapToLeader)}</td>`,
+    `<td>${entry.lapCount}</td>`,
+    `<td>${entry.simNum}</td>`,
+    `<td>${escapeHtml(new Date(entry.timestamp).toLocaleString("pt-BR"))}</td>`,
+  ];
+  const rowClass = entry.isValid === false ? ' class="invalid"' : "";
+  return `        <tr${rowClass}>${cells.join("")}</tr>`;
+}
+
+/**
+ * Página HTML para impressão, com uma tabela por combinação pista + carro
+ */
+export function resultsToHtml(results: EventResults): string {
+  const { event } = results;
+  const title = event.metadata.displayName ?? event.eventName;
+
+  const groups = new Map<string, LeaderboardEntry[]>();
+  for (const entry of results.entries) {
+    const key = `${entry.track} — ${entry.car}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(entry);
+  }
+
+  const tables = Array.from(groups.entries())
+    .map(
+      ([heading, entries]) => `
+    <h2>${escapeHtml(heading)}</h2>
+    <table>
+      <thead>
+        <tr><th>Pos.</th><th>Piloto</th><th>Melhor volta</th><th>Gap</th><th>Voltas</th><th>Sim</th><th>Registrado em</th></tr>
+      </thead>
+      <tbody>
+${entries.map(htmlRow).join("\n")}
+      </tbody>
+    </table>`
+    )
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+  <head>
+    <meta charset="utf-8" />
+    <title>Resultados — ${escapeHtml(title)}</title>
+    <style>
+      body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+      h1 { margin-bottom: 0.25rem; }
+      .meta { color: #555; margin-top: 0; }
+      h2 { margin-top: 2rem; font-size: 1.1rem; }
+      table { border-collapse: collapse; width: 100%; }
+      th, td { border-bottom: 1px solid #ccc; padding: 0.35rem 0.5rem; text-align: left; }
+      th { background: #eee; }
+      .time { font-family: ui-monospace, monospace; }
+      .invalid td { color: #a00; }
+      @media print {
+        body { margin: 0; }
+        h2 { break-after: avoid; }
+        tr { break-inside: avoid; }
+      }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeHtml(title)}</h1>
+    <p class="meta">Status: ${escapeHtml(event.status)} · Exportado em ${escapeHtml(new Date().toLocaleString("pt-BR"))}</p>
+${tables || "    <p>Nenhum tempo registrado.</p>"}
+  </body>
+</html>
+`;
+}
+
+/**
+ * Junta o CSV de vários eventos em uma resposta multipart/mixed
+ * (uma parte por evento, sem zip)
+ */
+export function resultsToMultipartCsv(
+  allResults: EventResults[],
+  boundary: string
+): string {
+  const parts = allResults.map((results) => {
+    const filename = exportFilename(results.event.eventName, "csv");
+    return (
+      `--${boundary}\r\n` +
+      `Content-Type: text/csv; charset=utf-8\r\n` +
+      `Content-Disposition: attachment; filename="${filename}"\r\n` +
+      `\r\n` +
+      resultsToCsv(results)
+    );
+  });
+
+  return parts.join("\r\n") + `\r\n--${boundary}--\r\n`;
+}
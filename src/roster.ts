@@ -0,0 +1,93 @@
+import type { RawSimulatorData, RosterEntry } from "./types.js";
+import type { SchemaIssue } from "./schema.js";
+
+/**
+ * Roster de simuladores aceitos pelo servidor
+ */
+export class SimulatorRoster {
+  private entries: Map<number, RosterEntry>;
+
+  constructor(entries: RosterEntry[]) {
+    this.entries = new Map(
+      [...entries]
+        .sort((a, b) => a.simNum - b.simNum)
+        .map((entry) => [entry.simNum, entry])
+    );
+  }
+
+  /**
+   * Verifica se o simNum está cadastrado
+   */
+  has(simNum: number): boolean {
+    return this.entries.has(simNum);
+  }
+
+  /**
+   * Obtém a entrada de um simulador
+   */
+  get(simNum: number): RosterEntry | undefined {
+    return this.entries.get(simNum);
+  }
+
+  /**
+   * Lista todos os simuladores cadastrados
+   */
+  getAll(): RosterEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * Descreve os simNums aceitos para mensagens de erro (ex: "1-8" ou "1, 3, 5")
+   */
+  describeSimNums(): string {
+    const simNums = Array.from(this.entries.keys());
+    const first = simNums[0];
+    const last = simNums[simNums.length - 1];
+    const contiguous = last - first + 1 === simNums.length;
+
+    return contiguous && simNums.length > 2
+      ? `${first}-${last}`
+      : simNums.join(", ");
+  }
+
+  /**
+   * Preenche carro/pista ausentes com os valores fixos do rig
+   */
+  fillFixedFields(data: Record<string, unknown>): void {
+    const entry =
+      typeof data.simNum === "number" ? this.entries.get(data.simNum) : undefined;
+    if (!entry) return;
+
+    if (entry.car && data.car === undefined) data.car = entry.car;
+    if (entry.track && data.track === undefined) data.track = entry.track;
+  }
+
+  /**
+   * Verifica se os dados respeitam o roster (simNum cadastrado e carro/pista fixos)
+   */
+  check(data: RawSimulatorData): SchemaIssue | undefined {
+    const entry = this.entries.get(data.simNum);
+    if (!entry) {
+      return {
+        path: "simNum",
+        reason: `simulador ${data.simNum} fora do roster (${this.describeSimNums()})`,
+      };
+    }
+
+    if (entry.car && data.car !== entry.car) {
+      return {
+        path: "car",
+        reason: `simulador ${data.simNum} (${entry.label}) só aceita o carro '${entry.car}'`,
+      };
+    }
+
+    if (entry.track && data.track !== entry.track) {
+      return {
+        path: "track",
+        reason: `simulador ${data.simNum} (${entry.label}) só aceita a pista '${entry.track}'`,
+      };
+    }
+
+    return undefined;
+  }
+}
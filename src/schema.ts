@@ -0,0 +1,348 @@
+import type { RawSimulatorData } from "./types.js";
+
+/**
+ * Modo de tratamento de campos inválidos
+ * - reject: rejeita a mensagem inteira
+ * - coerce: tenta converter ("12" → 12, limita faixas); rejeita se não for possível
+ * - strip: remove campos inválidos não essenciais e aceita o restante
+ */
+export type ValidationMode = "reject" | "coerce" | "strip";
+
+/**
+ * Problema encontrado em um campo
+ */
+export interface SchemaIssue {
+  path: string; // Ex: "lapData.sectorTimes[2]"
+  reason: string;
+  action?: "coerced" | "stripped"; // Ausente = causou rejeição
+}
+
+/**
+ * Resultado da validação
+ * Em caso de sucesso, `issues` lista os campos convertidos/removidos
+ */
+export type SchemaResult =
+  | { ok: true; data: RawSimulatorData; issues: SchemaIssue[] }
+  | { ok: false; issues: SchemaIssue[] };
+
+/**
+ * Opções de validação
+ */
+export interface SchemaOptions {
+  mode: ValidationMode;
+  requireTelemetry: boolean; // false = telemetria opcional (POST /api/input)
+}
+
+type FieldRule =
+  | { kind: "number"; min?: number; max?: number; integer?: boolean }
+  | { kind: "string"; nonEmpty?: boolean }
+  | { kind: "boolean" }
+  | { kind: "record" }
+  | { kind: "numberArray"; min?: number }
+  | { kind: "shape"; fields: Record<string, FieldSpec> };
+
+interface FieldSpec {
+  rule: FieldRule;
+  required: boolean;
+  critical?: boolean; // Nunca removido em modo strip
+  telemetry?: boolean; // Obrigatório apenas quando requireTelemetry = true
+}
+
+type CheckResult =
+  | { ok: true; value: unknown; coerced: boolean }
+  | { ok: false; reason: string; path?: string };
+
+interface ValidationContext {
+  options: SchemaOptions;
+  issues: SchemaIssue[];
+  fatal: boolean;
+}
+
+const LAP_DATA_SCHEMA: Record<string, FieldSpec> = {
+  lapTime: { rule: { kind: "number", min: 0 }, required: true },
+  sectorTimes: { rule: { kind: "numberArray", min: 0 }, required: true },
+  // Crítico: sem ele a volta seria tratada como válida
+  isValid: { rule: { kind: "boolean" }, required: true, critical: true },
+};
+
+/**
+ * Schema de RawSimulatorData
+ */
+const SIMULATOR_DATA_SCHEMA: Record<string, FieldSpec> = {
+  simNum: {
+    rule: { kind: "number", integer: true, min: 1 },
+    required: true,
+    critical: true,
+  },
+  "pilot-name": {
+    rule: { kind: "string", nonEmpty: true },
+    required: true,
+    critical: true,
+  },
+  car: { rule: { kind: "string" }, required: true, critical: true },
+  track: { rule: { kind: "string" }, required: true, critical: true },
+  lapData: {
+    rule: { kind: "shape", fields: LAP_DATA_SCHEMA },
+    required: true,
+    telemetry: true,
+  },
+  currentLap: {
+    rule: { kind: "number", integer: true, min: 0 },
+    required: true,
+    telemetry: true,
+  },
+  laps: {
+    rule: { kind: "number", integer: true, min: 0 },
+    required: true,
+    telemetry: true,
+  },
+  speedNow: { rule: { kind: "number", min: 0 }, required: true, telemetry: true },
+  rpm: { rule: { kind: "number", min: 0 }, required: true, telemetry: true },
+  maxRpm: { rule: { kind: "number", min: 0 }, required: true, telemetry: true },
+  gear: {
+    rule: { kind: "number", integer: true, min: -1 },
+    required: true,
+    telemetry: true,
+  },
+  gas: {
+    rule: { kind: "number", min: 0, max: 1 },
+    required: true,
+    telemetry: true,
+  },
+  brake: {
+    rule: { kind: "number", min: 0, max: 1 },
+    required: true,
+    telemetry: true,
+  },
+  fuel: { rule: { kind: "number", min: 0 }, required: true, telemetry: true },
+  maxFuel: { rule: { kind: "number", min: 0 }, required: true, telemetry: true },
+  position: {
+    rule: { kind: "number", integer: true, min: 0 },
+    required: true,
+    telemetry: true,
+  },
+  sessionTimeLeft: { rule: { kind: "number" }, required: true, telemetry: true },
+  bestLap: { rule: { kind: "number", min: 0 }, required: false },
+  bestTime: { rule: { kind: "number", min: 0 }, required: false },
+  event: { rule: { kind: "string", nonEmpty: true }, required: false },
+  carData: { rule: { kind: "record" }, required: false },
+};
+
+/**
+ * Descreve um valor recebido para mensagens de erro
+ */
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return "lista";
+  if (value === null) return "null";
+  if (typeof value === "string") return `string ${JSON.stringify(value)}`;
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Verifica um número, convertendo/limitando quando coerce = true
+ */
+function checkNumber(
+  value: unknown,
+  rule: { min?: number; max?: number; integer?: boolean },
+  coerce: boolean
+): CheckResult {
+  let v = value;
+  let coerced = false;
+
+  if (coerce && typeof v === "string" && v.trim() !== "") {
+    const parsed = Number(v);
+    if (Number.isFinite(parsed)) {
+      v = parsed;
+      coerced = true;
+    }
+  }
+
+  if (typeof v !== "number") {
+    return { ok: false, reason: `esperado número, recebido ${describe(value)}` };
+  }
+  if (!Number.isFinite(v)) {
+    return { ok: false, reason: "número não finito (NaN/Infinity)" };
+  }
+
+  if (rule.integer && !Number.isInteger(v)) {
+    if (!coerce) return { ok: false, reason: `esperado inteiro, recebido ${v}` };
+    v = Math.round(v);
+    coerced = true;
+  }
+
+  if (rule.min !== undefined && (v as number) < rule.min) {
+    if (!coerce) return { ok: false, reason: `valor ${v} menor que ${rule.min}` };
+    v = rule.min;
+    coerced = true;
+  }
+
+  if (rule.max !== undefined && (v as number) > rule.max) {
+    if (!coerce) return { ok: false, reason: `valor ${v} maior que ${rule.max}` };
+    v = rule.max;
+    coerced = true;
+  }
+
+  return { ok: true, value: v, coerced };
+}
+
+/**
+ * Verifica um valor de acordo com a regra do campo
+ */
+function checkValue(
+  value: unknown,
+  rule: FieldRule,
+  path: string,
+  ctx: ValidationContext
+): CheckResult {
+  const coerce = ctx.options.mode === "coerce";
+
+  switch (rule.kind) {
+    case "number":
+      return checkNumber(value, rule, coerce);
+
+    case "string":
+      if (typeof value === "number" && coerce) {
+        return { ok: true, value: String(value), coerced: true };
+      }
+      if (typeof value !== "string") {
+        return { ok: false, reason: `esperado string, recebido ${describe(value)}` };
+      }
+      if (rule.nonEmpty && value.trim() === "") {
+        return { ok: false, reason: "string vazia" };
+      }
+      return { ok: true, value, coerced: false };
+
+    case "boolean":
+      if (typeof value === "boolean") return { ok: true, value, coerced: false };
+      if (coerce && (value === "true" || value === 1)) {
+        return { ok: true, value: true, coerced: true };
+      }
+      if (coerce && (value === "false" || value === 0)) {
+        return { ok: true, value: false, coerced: true };
+      }
+      return { ok: false, reason: `esperado boolean, recebido ${describe(value)}` };
+
+    case "record":
+      if (!isPlainObject(value)) {
+        return { ok: false, reason: `esperado objeto, recebido ${describe(value)}` };
+      }
+      return { ok: true, value, coerced: false };
+
+    case "numberArray": {
+      if (!Array.isArray(value)) {
+        return { ok: false, reason: `esperado lista, recebido ${describe(value)}` };
+      }
+      let coerced = false;
+      const items: number[] = [];
+      for (let i = 0; i < value.length; i++) {
+        const item = checkNumber(value[i], { min: rule.min }, coerce);
+        if (!item.ok) {
+          return { ok: false, reason: item.reason, path: `${path}[${i}]` };
+        }
+        coerced = coerced || item.coerced;
+        items.push(item.value as number);
+      }
+      return { ok: true, value: items, coerced };
+    }
+
+    case "shape": {
+      if (!isPlainObject(value)) {
+        return { ok: false, reason: `esperado objeto, recebido ${describe(value)}` };
+      }
+      const copy: Record<string, unknown> = { ...value };
+      const fatalBefore = ctx.fatal;
+      ctx.fatal = false;
+      validateFields(copy, rule.fields, path, ctx);
+      const nestedFatal = ctx.fatal;
+      ctx.fatal = fatalBefore || nestedFatal;
+      // Problemas nos subcampos já foram registrados individualmente
+      return { ok: true, value: copy, coerced: false };
+    }
+  }
+}
+
+/**
+ * Valida (e corrige, conforme o modo) os campos de um objeto in-place
+ */
+function validateFields(
+  target: Record<string, unknown>,
+  fields: Record<string, FieldSpec>,
+  prefix: string,
+  ctx: ValidationContext
+): void {
+  const strip = ctx.options.mode === "strip";
+
+  for (const [key, spec] of Object.entries(fields)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const value = target[key];
+    const required =
+      spec.required && (!spec.telemetry || ctx.options.requireTelemetry);
+
+    if (value === undefined || value === null) {
+      if (value === null) delete target[key];
+      if (!required) continue;
+
+      if (strip && !spec.critical) {
+        ctx.issues.push({ path, reason: "campo obrigatório ausente", action: "stripped" });
+      } else {
+        ctx.issues.push({ path, reason: "campo obrigatório ausente" });
+        ctx.fatal = true;
+      }
+      continue;
+    }
+
+    const result = checkValue(value, spec.rule, path, ctx);
+
+    if (!result.ok) {
+      const issuePath = result.path ?? path;
+      if (strip && !spec.critical) {
+        delete target[key];
+        ctx.issues.push({ path: issuePath, reason: result.reason, action: "stripped" });
+      } else {
+        ctx.issues.push({ path: issuePath, reason: result.reason });
+        ctx.fatal = true;
+      }
+      continue;
+    }
+
+    target[key] = result.value;
+    if (result.coerced) {
+      ctx.issues.push({
+        path,
+        reason: `convertido de ${JSON.stringify(value)}`,
+        action: "coerced",
+      });
+    }
+  }
+}
+
+/**
+ * Valida dados brutos de simulador contra o schema de RawSimulatorData
+ * Campos desconhecidos são mantidos sem alteração
+ */
+export function validateRawSimulatorData(
+  raw: unknown,
+  options: SchemaOptions
+): SchemaResult {
+  if (!isPlainObject(raw)) {
+    return {
+      ok: false,
+      issues: [{ path: "", reason: `esperado objeto, recebido ${describe(raw)}` }],
+    };
+  }
+
+  const ctx: ValidationContext = { options, issues: [], fatal: false };
+  const data: Record<string, unknown> = { ...raw };
+
+  validateFields(data, SIMULATOR_DATA_SCHEMA, "", ctx);
+
+  if (ctx.fatal) {
+    return { ok: false, issues: ctx.issues.filter((i) => !i.action) };
+  }
+
+  return { ok: true, data: data as unknown as RawSimulatorData, issues: ctx.issues };
+}
@@ -2,20 +2,128 @@ import { WebSocketServer, WebSocket } from "ws";
 import { createServer } from "http";
 import { parse } from "url";
 import type { IncomingMessage } from "http";
-import type { InputMessage, RawSimulatorData } from "./types.js";
+import { join } from "path";
+import { createReadStream } from "fs";
+import { randomUUID } from "crypto";
+import type {
+  InputMessage,
+  RawSimulatorData,
+  ApiToken,
+  AuthRole,
+  LeaderboardChange,
+  EventMetadata,
+  EventSummary,
+  ScheduledEventSwitch,
+  RecordEditAction,
+  AuditEntry,
+  ReplayState,
+} from "./types.js";
 import { ConnectionManager } from "./connection-manager.js";
 import { logger } from "./logger.js";
+import {
+  normalizeSubscription,
+  parseSubscriptionQuery,
+  matchesSubscription,
+} from "./subscription.js";
+import {
+  normalizeOutputOptions,
+  parseOutputOptionsQuery,
+} from "./output-options.js";
+import { SimulatorStateStore } from "./simulator-state.js";
+import { Authenticator } from "./auth.js";
+import { SimulatorRoster } from "./roster.js";
+import { validateRawSimulatorData } from "./schema.js";
+import { parseLeaderboardQuery } from "./leaderboard.js";
+import { EventAssignments } from "./event-assignments.js";
+import { AuditLog, describeActor } from "./audit-log.js";
+import { TelemetryRecorder } from "./telemetry-recorder.js";
+import type { RecordingFilesResult } from "./telemetry-recorder.js";
+import { SessionReplayer, isValidReplaySpeed } from "./session-replay.js";
+import type { ReplayControlResult } from "./session-replay.js";
+import { ServerMetrics } from "./metrics.js";
+import {
+  EXPORT_FORMATS,
+  exportFilename,
+  resultsToCsv,
+  resultsToHtml,
+  resultsToJson,
+  resultsToMultipartCsv,
+} from "./results-export.js";
+import type { ExportFormat } from "./results-export.js";
+import type { SchemaResult } from "./schema.js";
 import type { ServerConfig } from "./types.js";
 import {
   processBestLap,
+  processLapCompletion,
+  processSectorTimes,
+  getPilotLaps,
+  updateEventSettings,
   getEventData,
+  getEventLeaderboard,
+  getLeaderboard,
+  getEventCombinations,
+  getEventSummary,
+  getActiveEvent,
+  createEvent,
+  activateEvent,
+  deactivateEvent,
+  closeEvent,
+  archiveEvent,
+  checkEventAcceptsLaps,
+  deletePilotRecords,
+  renamePilot,
+  overrideBestLap,
   listEvents,
   flushPendingWrites,
   reloadAllEvents,
   reloadEventData,
   initFileWatcher,
+  DEFAULT_EVENT_NAME,
+  DATA_DIR,
+  replayJournals,
+  initStorage,
+  getEventResults,
+  getAllEventResults,
+  closeStorage,
+  listCorruptEvents,
+  getPendingWriteCount,
+} from "./best-lap-tracker.js";
+import type {
+  EventLifecycleResult,
+  RecordEditAudit,
+  RecordEditResult,
 } from "./best-lap-tracker.js";
 
+/**
+ * Campos aceitos no body das edições de registros
+ */
+interface RecordEdit {
+  car?: string;
+  track?: string;
+  reason?: string;
+  newName?: string;
+  author?: string;
+  bestLapTime?: number;
+}
+
+// Rotas de edição de pilotos: "MÉTODO sufixo" → ação auditada
+const PILOT_EDIT_ROUTES: Record<string, RecordEditAction> = {
+  "DELETE ": "delete-pilot",
+  "POST /rename": "rename-pilot",
+  "PUT /best-lap": "override-best-lap",
+};
+
+/**
+ * Decodifica um segmento do caminho (null se o escape for inválido, ex: %E0)
+ */
+function safeDecode(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Servidor WebSocket principal
  */
@@ -23,11 +131,41 @@ export class WebSocketSimulatorServer {
   private httpServer;
   private wss: WebSocketServer;
   private connectionManager: ConnectionManager;
+  private simulatorStates: SimulatorStateStore;
+  private authenticator: Authenticator;
+  private roster: SimulatorRoster;
   private config: ServerConfig;
+  // Último motivo de recusa de voltas por simulador (evita repetir o aviso)
+  private lapRejections: Map<number, string> = new Map();
+  private eventAssignments: EventAssignments;
+  private auditLog: AuditLog;
+  private recorder: TelemetryRecorder;
+  private replayer: SessionReplayer;
+  private metrics: ServerMetrics = new ServerMetrics();
 
   constructor(config: ServerConfig) {
     this.config = config;
-    this.connectionManager = new ConnectionManager();
+    this.roster = new SimulatorRoster(config.roster);
+    this.connectionManager = new ConnectionManager(this.roster, config);
+    this.simulatorStates = new SimulatorStateStore(config.simulatorStateTtl);
+    this.authenticator = new Authenticator(config.apiTokens);
+    this.eventAssignments = new EventAssignments(
+      join(DATA_DIR, "state", "event-assignments.json"),
+      (entry) => this.runScheduledSwitch(entry)
+    );
+    this.auditLog = new AuditLog(join(DATA_DIR, "audit", "audit-log.ndjson"));
+    this.recorder = new TelemetryRecorder(
+      join(DATA_DIR, "recordings"),
+      config.recordingMaxFileBytes
+    );
+    this.replayer = new SessionReplayer(
+      (data, replay) =>
+        this.metrics.recordBroadcast(
+          data.simNum,
+          this.connectionManager.broadcastToOutputs(data, replay)
+        ),
+      (state) => this.broadcastReplayState(state)
+    );
 
     // Criar servidor HTTP
     this.httpServer = createServer(this.handleHttpRequest.bind(this));
@@ -56,6 +194,35 @@ export class WebSocketSimulatorServer {
     };
   }
 
+  /**
+   * Verifica o token de uma requisição HTTP
+   * Em caso de falha, responde 401/403 e retorna undefined
+   */
+  private authorizeHttp(
+    req: IncomingMessage,
+    res: any,
+    query: Record<string, string | string[] | undefined>,
+    allowedRoles: AuthRole[]
+  ): { token?: ApiToken } | undefined {
+    const result = this.authenticator.authorize(req, query, allowedRoles);
+
+    if (!result.ok) {
+      logger.warn(`Acesso HTTP negado: ${req.method} ${req.url}`, {
+        status: result.status,
+        reason: result.reason,
+        remoteAddress: req.socket.remoteAddress,
+      });
+      res.writeHead(result.status, {
+        ...this.getHeaders(),
+        ...(result.status === 401 ? { "WWW-Authenticate": "Bearer" } : {}),
+      });
+      res.end(JSON.stringify({ error: result.reason }));
+      return undefined;
+    }
+
+    return { token: result.token };
+  }
+
   /**
    * Trata requisições HTTP normais (para status/health check)
    */
@@ -72,30 +239,379 @@ export class WebSocketSimulatorServer {
 
     if (parsedUrl.pathname === "/health") {
       res.writeHead(200, this.getHeaders());
-      res.end(JSON.stringify({ status: "ok", uptime: process.uptime() }));
+      const corruptEvents = listCorruptEvents().length;
+      res.end(
+        JSON.stringify({
+          status: corruptEvents > 0 ? "degraded" : "ok",
+          uptime: process.uptime(),
+          corruptEvents,
+        })
+      );
       return;
     }
 
     if (parsedUrl.pathname === "/stats") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["display"])) return;
       const stats = this.connectionManager.getStats();
       res.writeHead(200, this.getHeaders());
       res.end(JSON.stringify(stats));
       return;
     }
 
+    if (parsedUrl.pathname === "/metrics" && req.method === "GET") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["display"])) return;
+      const stats = this.connectionManager.getStats();
+      res.writeHead(
+        200,
+        this.getHeaders("text/plain; version=0.0.4; charset=utf-8")
+      );
+      res.end(
+        this.metrics.render({
+          inputClients: stats.inputClients,
+          outputClients: stats.outputClients,
+          skippedFrames: stats.backpressure.skippedFrames,
+          evictedClients: stats.backpressure.evictedClients,
+          pendingWrites: getPendingWriteCount(),
+          recordingDropped: this.recorder.droppedUpdates,
+          uptime: stats.uptime,
+        })
+      );
+      return;
+    }
+
+    if (parsedUrl.pathname === "/clients" && req.method === "GET") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["admin"])) return;
+      res.writeHead(200, this.getHeaders());
+      res.end(
+        JSON.stringify({ clients: this.connectionManager.getClientInfos() })
+      );
+      return;
+    }
+
+    if (parsedUrl.pathname === "/roster" && req.method === "GET") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["display"])) return;
+      res.writeHead(200, this.getHeaders());
+      res.end(JSON.stringify({ simulators: this.roster.getAll() }));
+      return;
+    }
+
+    // GET /events/:event/pilots/:pilot/laps
+    const lapsMatch = parsedUrl.pathname?.match(
+      /^\/events\/([^/]+)\/pilots\/([^/]+)\/laps$/
+    );
+    if (lapsMatch && req.method === "GET") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["display"])) return;
+      const eventName = safeDecode(lapsMatch[1]);
+      const pilotName = safeDecode(lapsMatch[2]);
+      if (eventName === null || pilotName === null) {
+        this.respondBadPathSegment(res);
+        return;
+      }
+      this.handlePilotLapsRequest(res, eventName, pilotName);
+      return;
+    }
+
+    // GET /events/:event/leaderboard
+    const leaderboardMatch = parsedUrl.pathname?.match(
+      /^\/events\/([^/]+)\/leaderboard$/
+    );
+    if (leaderboardMatch && req.method === "GET") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["display"])) return;
+      const eventName = safeDecode(leaderboardMatch[1]);
+      if (eventName === null) {
+        this.respondBadPathSegment(res);
+        return;
+      }
+      this.handleLeaderboardRequest(res, eventName, parsedUrl.query);
+      return;
+    }
+
+    // GET /events/:event/export?format=csv|json|html
+    const exportMatch = parsedUrl.pathname?.match(
+      /^\/events\/([^/]+)\/export$/
+    );
+    if (exportMatch && req.method === "GET") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["display"])) return;
+      const eventName = safeDecode(exportMatch[1]);
+      if (eventName === null) {
+        this.respondBadPathSegment(res);
+        return;
+      }
+      this.handleExportRequest(res, eventName, parsedUrl.query).catch((error) =>
+        this.respondHandlerError(req, res, error)
+      );
+      return;
+    }
+
+    // GET /export/events (CSV de todos os eventos, multipart/mixed)
+    if (parsedUrl.pathname === "/export/events" && req.method === "GET") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["display"])) return;
+      this.handleBulkExportRequest(res).catch((error) =>
+        this.respondHandlerError(req, res, error)
+      );
+      return;
+    }
+
+    // GET /events/:event/combinations
+    const combinationsMatch = parsedUrl.pathname?.match(
+      /^\/events\/([^/]+)\/combinations$/
+    );
+    if (combinationsMatch && req.method === "GET") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["display"])) return;
+      const eventName = safeDecode(combinationsMatch[1]);
+      if (eventName === null) {
+        this.respondBadPathSegment(res);
+        return;
+      }
+      this.handleCombinationsRequest(res, eventName);
+      return;
+    }
+
+    if (parsedUrl.pathname === "/active-event" && req.method === "GET") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["display"])) return;
+      res.writeHead(200, this.getHeaders());
+      res.end(JSON.stringify(this.eventAssignments.getState()));
+      return;
+    }
+
+    // PUT /active-event e PUT /active-event/sims/:simNum
+    const activeEventMatch = parsedUrl.pathname?.match(
+      /^\/active-event(?:\/sims\/(\d+))?$/
+    );
+    if (activeEventMatch && req.method === "PUT") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["admin"])) return;
+      this.handleActiveEventRequest(
+        req,
+        res,
+        activeEventMatch[1] !== undefined
+          ? Number(activeEventMatch[1])
+          : undefined
+      ).catch((error) => this.respondHandlerError(req, res, error));
+      return;
+    }
+
+    if (
+      parsedUrl.pathname === "/active-event/schedule" &&
+      req.method === "POST"
+    ) {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["admin"])) return;
+      this.handleScheduleEventSwitchRequest(req, res).catch((error) =>
+        this.respondHandlerError(req, res, error)
+      );
+      return;
+    }
+
+    // DELETE /active-event/schedule/:id
+    const scheduleMatch = parsedUrl.pathname?.match(
+      /^\/active-event\/schedule\/([^/]+)$/
+    );
+    if (scheduleMatch && req.method === "DELETE") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["admin"])) return;
+      const id = safeDecode(scheduleMatch[1]);
+      if (id === null) {
+        this.respondBadPathSegment(res);
+        return;
+      }
+      this.eventAssignments
+        .removeSchedule(id)
+        .then((removed) => {
+          if (!removed) {
+            res.writeHead(404, this.getHeaders());
+            res.end(JSON.stringify({ error: "Agendamento não encontrado" }));
+            return;
+          }
+          res.writeHead(200, this.getHeaders());
+          res.end(JSON.stringify({ success: true }));
+          this.broadcastActiveEventState();
+        })
+        .catch((error) => {
+          res.writeHead(500, this.getHeaders());
+          res.end(
+            JSON.stringify({
+              error: "Erro ao remover agendamento",
+              message: (error as Error).message,
+            })
+          );
+        });
+      return;
+    }
+
+    // POST /events/:event/activate | close | archive
+    const lifecycleMatch = parsedUrl.pathname?.match(
+      /^\/events\/([^/]+)\/(activate|close|archive)$/
+    );
+    if (lifecycleMatch && req.method === "POST") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["admin"])) return;
+      const eventName = safeDecode(lifecycleMatch[1]);
+      if (eventName === null) {
+        this.respondBadPathSegment(res);
+        return;
+      }
+      this.handleEventLifecycleRequest(
+        res,
+        eventName,
+        lifecycleMatch[2] as "activate" | "close" | "archive"
+      ).catch((error) => this.respondHandlerError(req, res, error));
+      return;
+    }
+
+    // GET /events/:event (resumo) e POST /events/:event (criação)
+    const eventMatch = parsedUrl.pathname?.match(/^\/events\/([^/]+)$/);
+    if (eventMatch && req.method === "GET") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["display"])) return;
+      const eventName = safeDecode(eventMatch[1]);
+      if (eventName === null) {
+        this.respondBadPathSegment(res);
+        return;
+      }
+      this.handleEventSummaryRequest(res, eventName);
+      return;
+    }
+    if (eventMatch && req.method === "POST") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["admin"])) return;
+      const eventName = safeDecode(eventMatch[1]);
+      if (eventName === null) {
+        this.respondBadPathSegment(res);
+        return;
+      }
+      this.handleCreateEventRequest(req, res, eventName).catch((error) =>
+        this.respondHandlerError(req, res, error)
+      );
+      return;
+    }
+
+    // DELETE /events/:event/pilots/:pilot
+    // POST /events/:event/pilots/:pilot/rename
+    // PUT /events/:event/pilots/:pilot/best-lap
+    const pilotEditMatch = parsedUrl.pathname?.match(
+      /^\/events\/([^/]+)\/pilots\/([^/]+)(\/rename|\/best-lap)?$/
+    );
+    const pilotEditAction =
+      pilotEditMatch &&
+      PILOT_EDIT_ROUTES[`${req.method} ${pilotEditMatch[3] ?? ""}`];
+    if (pilotEditMatch && pilotEditAction) {
+      const auth = this.authorizeHttp(req, res, parsedUrl.query, ["admin"]);
+      if (!auth) return;
+      const eventName = safeDecode(pilotEditMatch[1]);
+      const pilotName = safeDecode(pilotEditMatch[2]);
+      if (eventName === null || pilotName === null) {
+        this.respondBadPathSegment(res);
+        return;
+      }
+      this.handleRecordEditRequest(
+        req,
+        res,
+        eventName,
+        pilotName,
+        pilotEditAction,
+        auth.token
+      ).catch((error) => this.respondHandlerError(req, res, error));
+      return;
+    }
+
+    if (parsedUrl.pathname === "/audit" && req.method === "GET") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["admin"])) return;
+      this.handleAuditRequest(res, parsedUrl.query);
+      return;
+    }
+
+    // Gravações de telemetria
+    if (parsedUrl.pathname === "/recordings" && req.method === "GET") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["display"])) return;
+      this.handleListRecordingsRequest(res);
+      return;
+    }
+    if (parsedUrl.pathname === "/recordings/start" && req.method === "POST") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["admin"])) return;
+      this.handleStartRecordingRequest(req, res).catch((error) =>
+        this.respondHandlerError(req, res, error)
+      );
+      return;
+    }
+    if (parsedUrl.pathname === "/recordings/stop" && req.method === "POST") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["admin"])) return;
+      this.handleStopRecordingRequest(res).catch((error) =>
+        this.respondHandlerError(req, res, error)
+      );
+      return;
+    }
+
+    // GET /recordings/:id e GET /recordings/:id/download[?file=part-0001.ndjson]
+    const recordingMatch = parsedUrl.pathname?.match(
+      /^\/recordings\/([^/]+)(\/download)?$/
+    );
+    if (recordingMatch && req.method === "GET") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["display"])) return;
+      const id = safeDecode(recordingMatch[1]);
+      if (id === null) {
+        this.respondBadPathSegment(res);
+        return;
+      }
+      if (recordingMatch[2]) {
+        const file = parsedUrl.query.file;
+        this.handleDownloadRecordingRequest(
+          res,
+          id,
+          Array.isArray(file) ? file[0] : file
+        ).catch((error) => this.respondHandlerError(req, res, error));
+      } else {
+        this.handleRecordingRequest(res, id);
+      }
+      return;
+    }
+
+    // Replay de gravações para os clientes OUTPUT
+    if (parsedUrl.pathname === "/replay" && req.method === "GET") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["display"])) return;
+      res.writeHead(200, this.getHeaders());
+      res.end(JSON.stringify({ replay: this.replayer.getState() }));
+      return;
+    }
+    const replayMatch = parsedUrl.pathname?.match(
+      /^\/replay\/(start|pause|resume|seek|speed|stop)$/
+    );
+    if (replayMatch && req.method === "POST") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["admin"])) return;
+      this.handleReplayRequest(req, res, replayMatch[1]).catch((error) =>
+        this.respondHandlerError(req, res, error)
+      );
+      return;
+    }
+
+    // PUT /events/:event/settings
+    const settingsMatch = parsedUrl.pathname?.match(
+      /^\/events\/([^/]+)\/settings$/
+    );
+    if (settingsMatch && req.method === "PUT") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["admin"])) return;
+      const eventName = safeDecode(settingsMatch[1]);
+      if (eventName === null) {
+        this.respondBadPathSegment(res);
+        return;
+      }
+      this.handleEventSettingsRequest(req, res, eventName).catch((error) =>
+        this.respondHandlerError(req, res, error)
+      );
+      return;
+    }
+
     if (parsedUrl.pathname === "/events") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["display"])) return;
       this.handleEventsRequest(req, res);
       return;
     }
 
     if (parsedUrl.pathname === "/reload") {
+      if (!this.authorizeHttp(req, res, parsedUrl.query, ["admin"])) return;
       this.handleReloadRequest(req, res);
       return;
     }
 
     // HTTP POST endpoint for simulator data (fallback when WebSocket doesn't work)
     if (parsedUrl.pathname === "/api/input" && req.method === "POST") {
-      this.handleHttpInput(req, res);
+      const auth = this.authorizeHttp(req, res, parsedUrl.query, ["simulator"]);
+      if (!auth) return;
+      this.handleHttpInput(req, res, auth.token);
       return;
     }
 
@@ -103,83 +619,1276 @@ export class WebSocketSimulatorServer {
     res.end("Not Found");
   }
 
-  /**
-   * Trata requisições para o endpoint /events
-   */
-  private handleEventsRequest(req: IncomingMessage, res: any): void {
-    if (req.method === "GET") {
-      // Listar todos os eventos
-      listEvents()
-        .then((events) => {
-          res.writeHead(200, this.getHeaders());
-          res.end(JSON.stringify({ events }));
-        })
-        .catch((error) => {
+  /**
+   * Responde 500 para uma falha não tratada em um handler assíncrono
+   * (se a resposta já começou, apenas encerra a conexão)
+   */
+  private respondHandlerError(
+    req: IncomingMessage,
+    res: any,
+    error: unknown
+  ): void {
+    logger.error(`Erro ao processar ${req.method} ${req.url}`, {
+      error: (error as Error).message,
+    });
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    res.writeHead(500, this.getHeaders());
+    res.end(
+      JSON.stringify({
+        error: "Erro interno",
+        message: (error as Error).message,
+      })
+    );
+  }
+
+  /**
+   * Responde 400 para um segmento do caminho com escape inválido
+   */
+  private respondBadPathSegment(res: any): void {
+    res.writeHead(400, this.getHeaders());
+    res.end(JSON.stringify({ error: "Caminho inválido: escape malformado" }));
+  }
+
+  /**
+   * Trata requisições para o endpoint /events
+   */
+  private handleEventsRequest(req: IncomingMessage, res: any): void {
+    if (req.method === "GET") {
+      // Listar todos os eventos
+      Promise.all([listEvents(), getActiveEvent()])
+        .then(([events, activeEvent]) => {
+          res.writeHead(200, this.getHeaders());
+          res.end(
+            JSON.stringify({
+              events,
+              activeEvent,
+              corruptEvents: listCorruptEvents(),
+            })
+          );
+        })
+        .catch((error) => {
+          res.writeHead(500, this.getHeaders());
+          res.end(
+            JSON.stringify({
+              error: "Erro ao listar eventos",
+              message: (error as Error).message,
+            })
+          );
+        });
+      return;
+    }
+
+    if (req.method === "POST") {
+      // Obter dados de um evento específico
+      let body = "";
+
+      req.on("data", (chunk) => {
+        body += chunk.toString();
+      });
+
+      req.on("end", async () => {
+        try {
+          const { eventName } = JSON.parse(body);
+
+          if (!eventName) {
+            res.writeHead(400, this.getHeaders());
+            res.end(
+              JSON.stringify({
+                error: "Campo 'eventName' é obrigatório",
+              })
+            );
+            return;
+          }
+
+          const eventData = await getEventData(eventName);
+
+          if (!eventData) {
+            res.writeHead(404, this.getHeaders());
+            res.end(
+              JSON.stringify({
+                error: "Evento não encontrado",
+                eventName,
+              })
+            );
+            return;
+          }
+
+          res.writeHead(200, this.getHeaders());
+          res.end(JSON.stringify(eventData));
+        } catch (error) {
+          res.writeHead(400, this.getHeaders());
+          res.end(
+            JSON.stringify({
+              error: "JSON inválido ou erro ao processar",
+              message: (error as Error).message,
+            })
+          );
+        }
+      });
+
+      return;
+    }
+
+    // Método não permitido
+    res.writeHead(405, this.getHeaders());
+    res.end(JSON.stringify({ error: "Método não permitido" }));
+  }
+
+  /**
+   * Trata GET /events/:event/pilots/:pilot/laps (histórico de voltas)
+   */
+  private handlePilotLapsRequest(
+    res: any,
+    eventName: string,
+    pilotName: string
+  ): void {
+    getPilotLaps(eventName, pilotName)
+      .then((laps) => {
+        if (!laps) {
+          res.writeHead(404, this.getHeaders());
+          res.end(JSON.stringify({ error: "Evento não encontrado", eventName }));
+          return;
+        }
+
+        res.writeHead(200, this.getHeaders());
+        res.end(JSON.stringify({ eventName, pilotName, laps }));
+      })
+      .catch((error) => {
+        res.writeHead(500, this.getHeaders());
+        res.end(
+          JSON.stringify({
+            error: "Erro ao obter voltas",
+            message: (error as Error).message,
+          })
+        );
+      });
+  }
+
+  /**
+   * Trata GET /events/:event/leaderboard (ranking com filtros e paginação)
+   */
+  private handleLeaderboardRequest(
+    res: any,
+    eventName: string,
+    query: Record<string, string | string[] | undefined>
+  ): void {
+    const parsed = parseLeaderboardQuery(query);
+    if (parsed.error !== undefined) {
+      res.writeHead(400, this.getHeaders());
+      res.end(JSON.stringify({ error: parsed.error }));
+      return;
+    }
+
+    getLeaderboard(eventName, parsed.query)
+      .then((leaderboard) => {
+        if (!leaderboard) {
+          res.writeHead(404, this.getHeaders());
+          res.end(JSON.stringify({ error: "Evento não encontrado", eventName }));
+          return;
+        }
+
+        res.writeHead(200, this.getHeaders());
+        res.end(JSON.stringify(leaderboard));
+      })
+      .catch((error) => {
+        res.writeHead(500, this.getHeaders());
+        res.end(
+          JSON.stringify({
+            error: "Erro ao obter leaderboard",
+            message: (error as Error).message,
+          })
+        );
+      });
+  }
+
+  /**
+   * Trata GET /events/:event/combinations (pistas + carros com tempos)
+   */
+  private handleCombinationsRequest(res: any, eventName: string): void {
+    getEventCombinations(eventName)
+      .then((combinations) => {
+        if (!combinations) {
+          res.writeHead(404, this.getHeaders());
+          res.end(JSON.stringify({ error: "Evento não encontrado", eventName }));
+          return;
+        }
+
+        res.writeHead(200, this.getHeaders());
+        res.end(JSON.stringify({ eventName, combinations }));
+      })
+      .catch((error) => {
+        res.writeHead(500, this.getHeaders());
+        res.end(
+          JSON.stringify({
+            error: "Erro ao obter combinações",
+            message: (error as Error).message,
+          })
+        );
+      });
+  }
+
+  /**
+   * Lê e interpreta o body JSON de uma requisição (body vazio = {})
+   * Rejeita bodies que não sejam um objeto (ex: null, listas, números)
+   */
+  private readJsonBody(
+    req: IncomingMessage
+  ): Promise<Record<string, unknown>> {
+    return new Promise((resolve, reject) => {
+      let body = "";
+
+      req.on("data", (chunk) => {
+        body += chunk.toString();
+      });
+
+      req.on("end", () => {
+        try {
+          const parsed = body ? JSON.parse(body) : {};
+          if (
+            typeof parsed !== "object" ||
+            parsed === null ||
+            Array.isArray(parsed)
+          ) {
+            reject(new Error("O body deve ser um objeto JSON"));
+            return;
+          }
+          resolve(parsed);
+        } catch (error) {
+          reject(error);
+        }
+      });
+
+      req.on("error", reject);
+    });
+  }
+
+  /**
+   * Lê o body JSON de uma requisição como readJsonBody
+   * Se ele for inválido, responde 400 ("JSON inválido") e retorna undefined
+   */
+  private async readJsonBodyOrRespond(
+    req: IncomingMessage,
+    res: any
+  ): Promise<Record<string, unknown> | undefined> {
+    try {
+      return await this.readJsonBody(req);
+    } catch (error) {
+      res.writeHead(400, this.getHeaders());
+      res.end(
+        JSON.stringify({
+          error: "JSON inválido",
+          message: (error as Error).message,
+        })
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Trata PUT /events/:event/settings
+   */
+  private async handleEventSettingsRequest(
+    req: IncomingMessage,
+    res: any,
+    eventName: string
+  ): Promise<void> {
+    const body = await this.readJsonBodyOrRespond(req, res);
+    if (!body) return;
+
+    if (
+      body.countInvalidLaps !== undefined &&
+      typeof body.countInvalidLaps !== "boolean"
+    ) {
+      res.writeHead(400, this.getHeaders());
+      res.end(
+        JSON.stringify({ error: "Campo 'countInvalidLaps' deve ser boolean" })
+      );
+      return;
+    }
+
+    try {
+      const settings = await updateEventSettings(eventName, {
+        ...(body.countInvalidLaps !== undefined
+          ? { countInvalidLaps: body.countInvalidLaps }
+          : {}),
+      });
+
+      res.writeHead(200, this.getHeaders());
+      res.end(JSON.stringify({ success: true, eventName, settings }));
+    } catch (error) {
+      res.writeHead(500, this.getHeaders());
+      res.end(
+        JSON.stringify({
+          error: "Erro ao atualizar configurações",
+          message: (error as Error).message,
+        })
+      );
+    }
+  }
+
+  /**
+   * Trata GET /events/:event (resumo, estado e metadados)
+   */
+  private handleEventSummaryRequest(res: any, eventName: string): void {
+    getEventSummary(eventName)
+      .then((event) => {
+        if (!event) {
+          res.writeHead(404, this.getHeaders());
+          res.end(JSON.stringify({ error: "Evento não encontrado", eventName }));
+          return;
+        }
+
+        res.writeHead(200, this.getHeaders());
+        res.end(JSON.stringify({ event }));
+      })
+      .catch((error) => {
+        res.writeHead(500, this.getHeaders());
+        res.end(
+          JSON.stringify({
+            error: "Erro ao obter evento",
+            message: (error as Error).message,
+          })
+        );
+      });
+  }
+
+  /**
+   * Valida os metadados de criação de evento
+   * Retorna a mensagem de erro quando inválidos
+   */
+  private parseEventMetadata(
+    body: Record<string, unknown>
+  ): { metadata: EventMetadata; error?: undefined } | { error: string } {
+    const metadata: EventMetadata = {};
+
+    for (const field of ["displayName", "track"] as const) {
+      if (body[field] === undefined) continue;
+      if (typeof body[field] !== "string" || body[field].trim() === "") {
+        return { error: `Campo '${field}' deve ser uma string não vazia` };
+      }
+      metadata[field] = body[field];
+    }
+
+    if (body.allowedCars !== undefined) {
+      if (
+        !Array.isArray(body.allowedCars) ||
+        !body.allowedCars.every((car: unknown) => typeof car === "string")
+      ) {
+        return { error: "Campo 'allowedCars' deve ser uma lista de strings" };
+      }
+      metadata.allowedCars = body.allowedCars;
+    }
+
+    for (const field of ["startDate", "endDate"] as const) {
+      if (body[field] === undefined) continue;
+      if (
+        typeof body[field] !== "string" ||
+        Number.isNaN(Date.parse(body[field]))
+      ) {
+        return { error: `Campo '${field}' deve ser uma data ISO 8601` };
+      }
+      metadata[field] = new Date(body[field]).toISOString();
+    }
+
+    if (
+      metadata.startDate &&
+      metadata.endDate &&
+      metadata.endDate < metadata.startDate
+    ) {
+      return { error: "Campo 'endDate' deve ser posterior a 'startDate'" };
+    }
+
+    return { metadata };
+  }
+
+  /**
+   * Trata POST /events/:event (criação explícita com metadados)
+   */
+  private async handleCreateEventRequest(
+    req: IncomingMessage,
+    res: any,
+    eventName: string
+  ): Promise<void> {
+    const body = await this.readJsonBodyOrRespond(req, res);
+    if (!body) return;
+
+    const parsed = this.parseEventMetadata(body);
+    if (parsed.error !== undefined) {
+      res.writeHead(400, this.getHeaders());
+      res.end(JSON.stringify({ error: parsed.error }));
+      return;
+    }
+
+    try {
+      const result = await createEvent(eventName, parsed.metadata);
+      await this.sendEventLifecycleResult(res, eventName, result, 201);
+    } catch (error) {
+      res.writeHead(500, this.getHeaders());
+      res.end(
+        JSON.stringify({
+          error: "Erro ao criar evento",
+          message: (error as Error).message,
+        })
+      );
+    }
+  }
+
+  /**
+   * Trata POST /events/:event/activate | close | archive
+   */
+  private async handleEventLifecycleRequest(
+    res: any,
+    eventName: string,
+    action: "activate" | "close" | "archive"
+  ): Promise<void> {
+    const operations = {
+      activate: activateEvent,
+      close: closeEvent,
+      archive: archiveEvent,
+    };
+
+    try {
+      const result = await operations[action](eventName);
+      await this.sendEventLifecycleResult(res, eventName, result, 200);
+    } catch (error) {
+      res.writeHead(500, this.getHeaders());
+      res.end(
+        JSON.stringify({
+          error: "Erro ao atualizar evento",
+          message: (error as Error).message,
+        })
+      );
+    }
+  }
+
+  /**
+   * Responde uma operação de ciclo de vida e notifica os clientes OUTPUT
+   * O evento ativo global é atualizado antes da resposta; uma falha nessa
+   * atualização só é registrada (a operação já foi gravada)
+   */
+  private async sendEventLifecycleResult(
+    res: any,
+    eventName: string,
+    result: EventLifecycleResult,
+    successStatus: number
+  ): Promise<void> {
+    if (result.error !== undefined) {
+      res.writeHead(result.code === "not-found" ? 404 : 409, this.getHeaders());
+      res.end(JSON.stringify({ error: result.error, eventName }));
+      return;
+    }
+
+    try {
+      await this.refreshGlobalEvent();
+    } catch (error) {
+      logger.error("Erro ao atualizar evento ativo global", {
+        eventName,
+        error: (error as Error).message,
+      });
+    }
+
+    res.writeHead(successStatus, this.getHeaders());
+    res.end(JSON.stringify({ success: true, event: result.event }));
+
+    this.broadcastEventStatus(result.event);
+  }
+
+  /**
+   * Envia "event-status" (mudança de estado de um evento) aos clientes OUTPUT
+   */
+  private broadcastEventStatus(event: EventSummary): void {
+    this.connectionManager.broadcast(
+      {
+        type: "event-status",
+        data: event,
+        timestamp: new Date().toISOString(),
+      },
+      { type: "event-status", event: event.eventName }
+    );
+  }
+
+  /**
+   * Envia "active-event" (evento global, atribuições e agendamentos)
+   */
+  private broadcastActiveEventState(): void {
+    this.connectionManager.broadcast(
+      {
+        type: "active-event",
+        data: this.eventAssignments.getState(),
+        timestamp: new Date().toISOString(),
+      },
+      { type: "active-event" }
+    );
+  }
+
+  /**
+   * Sincroniza o evento ativo global usado para dados sem "event"
+   */
+  private async refreshGlobalEvent(): Promise<void> {
+    const previous = this.eventAssignments.getState().global;
+    const current = await getActiveEvent();
+    this.eventAssignments.setGlobal(current);
+    if (current !== previous) this.broadcastActiveEventState();
+  }
+
+  /**
+   * Troca o evento ativo global (simNum ausente) ou de um simulador
+   * Eventos inexistentes são recusados com REQUIRE_EVENT_CREATION; sem ele,
+   * são criados ao se tornarem o evento ativo global
+   */
+  private async switchActiveEvent(
+    event: string | null,
+    simNum?: number
+  ): Promise<{ error: string; code: "not-found" | "conflict" } | undefined> {
+    const summary = event !== null ? await getEventSummary(event) : null;
+    if (event !== null && !summary && this.config.requireEventCreation) {
+      return { error: `Evento não encontrado: ${event}`, code: "not-found" };
+    }
+    if (summary && summary.status !== "open") {
+      return {
+        error: `Evento '${summary.eventName}' não está aberto (${summary.status})`,
+        code: "conflict",
+      };
+    }
+
+    if (simNum !== undefined) {
+      await this.eventAssignments.setForSimulator(simNum, event);
+      this.broadcastActiveEventState();
+      return undefined;
+    }
+
+    if (event === null) {
+      const previous = await deactivateEvent();
+      if (previous) this.broadcastEventStatus(previous);
+    } else {
+      if (!summary) {
+        const created = await createEvent(event, {});
+        if (created.event) this.broadcastEventStatus(created.event);
+      }
+      const result = await activateEvent(event);
+      if (result.error !== undefined) return result;
+      this.broadcastEventStatus(result.event);
+    }
+
+    await this.refreshGlobalEvent();
+    return undefined;
+  }
+
+  /**
+   * Executa uma troca de evento agendada
+   */
+  private runScheduledSwitch(entry: ScheduledEventSwitch): void {
+    this.switchActiveEvent(entry.event, entry.simNum)
+      .then((failure) => {
+        if (failure) {
+          logger.warn("Troca de evento agendada não aplicada", {
+            ...entry,
+            error: failure.error,
+          });
+          // O agendamento foi consumido mesmo sem aplicar a troca
+          this.broadcastActiveEventState();
+        }
+      })
+      .catch((error) => {
+        logger.error("Erro ao executar troca de evento agendada", {
+          error: (error as Error).message,
+        });
+      });
+  }
+
+  /**
+   * Valida o campo "event" (nome não vazio ou null)
+   */
+  private isValidEventField(event: unknown): event is string | null {
+    return event === null || (typeof event === "string" && event.trim() !== "");
+  }
+
+  /**
+   * Trata PUT /active-event e PUT /active-event/sims/:simNum
+   */
+  private async handleActiveEventRequest(
+    req: IncomingMessage,
+    res: any,
+    simNum?: number
+  ): Promise<void> {
+    const body = await this.readJsonBodyOrRespond(req, res);
+    if (!body) return;
+
+    if (!this.isValidEventField(body.event)) {
+      res.writeHead(400, this.getHeaders());
+      res.end(
+        JSON.stringify({ error: "Campo 'event' deve ser um nome ou null" })
+      );
+      return;
+    }
+
+    if (simNum !== undefined && !this.roster.has(simNum)) {
+      res.writeHead(404, this.getHeaders());
+      res.end(
+        JSON.stringify({
+          error: `Simulador ${simNum} fora do roster (${this.roster.describeSimNums()})`,
+        })
+      );
+      return;
+    }
+
+    try {
+      const failure = await this.switchActiveEvent(body.event, simNum);
+      if (failure) {
+        res.writeHead(
+          failure.code === "not-found" ? 404 : 409,
+          this.getHeaders()
+        );
+        res.end(JSON.stringify({ error: failure.error }));
+        return;
+      }
+
+      res.writeHead(200, this.getHeaders());
+      res.end(
+        JSON.stringify({ success: true, ...this.eventAssignments.getState() })
+      );
+    } catch (error) {
+      res.writeHead(500, this.getHeaders());
+      res.end(
+        JSON.stringify({
+          error: "Erro ao trocar evento ativo",
+          message: (error as Error).message,
+        })
+      );
+    }
+  }
+
+  /**
+   * Trata POST /active-event/schedule (agendar troca de evento)
+   */
+  private async handleScheduleEventSwitchRequest(
+    req: IncomingMessage,
+    res: any
+  ): Promise<void> {
+    const body = await this.readJsonBodyOrRespond(req, res);
+    if (!body) return;
+
+    if (!this.isValidEventField(body.event)) {
+      res.writeHead(400, this.getHeaders());
+      res.end(
+        JSON.stringify({ error: "Campo 'event' deve ser um nome ou null" })
+      );
+      return;
+    }
+
+    const at = typeof body.at === "string" ? Date.parse(body.at) : NaN;
+    if (Number.isNaN(at) || at <= Date.now()) {
+      res.writeHead(400, this.getHeaders());
+      res.end(
+        JSON.stringify({ error: "Campo 'at' deve ser uma data ISO 8601 futura" })
+      );
+      return;
+    }
+
+    if (
+      body.simNum !== undefined &&
+      (typeof body.simNum !== "number" || !this.roster.has(body.simNum))
+    ) {
+      res.writeHead(400, this.getHeaders());
+      res.end(
+        JSON.stringify({
+          error: `Campo 'simNum' deve ser um simulador do roster (${this.roster.describeSimNums()})`,
+        })
+      );
+      return;
+    }
+
+    try {
+      const entry = await this.eventAssignments.addSchedule({
+        event: body.event,
+        at: new Date(at).toISOString(),
+        ...(body.simNum !== undefined ? { simNum: body.simNum } : {}),
+      });
+
+      res.writeHead(201, this.getHeaders());
+      res.end(JSON.stringify({ success: true, scheduled: entry }));
+      this.broadcastActiveEventState();
+    } catch (error) {
+      res.writeHead(500, this.getHeaders());
+      res.end(
+        JSON.stringify({
+          error: "Erro ao agendar troca de evento",
+          message: (error as Error).message,
+        })
+      );
+    }
+  }
+
+  /**
+   * Valida o body de uma edição de registros
+   * (campos obrigatórios dependem da ação)
+   */
+  private parseRecordEdit(
+    action: RecordEditAction,
+    body: Record<string, unknown>
+  ): { edit: RecordEdit; error?: undefined } | { error: string } {
+    const edit: RecordEdit = {};
+
+    const fields = ["car", "track", "reason", "newName", "author"] as const;
+    for (const field of fields) {
+      const value = body[field];
+      if (value === undefined) continue;
+      if (typeof value !== "string" || value.trim() === "") {
+        return { error: `Campo '${field}' deve ser uma string não vazia` };
+      }
+      edit[field] = value;
+    }
+
+    if (action === "rename-pilot" && edit.newName === undefined) {
+      return { error: "Campo 'newName' é obrigatório" };
+    }
+
+    if (action === "override-best-lap") {
+      const { bestLapTime } = body;
+      if (
+        typeof bestLapTime !== "number" ||
+        !Number.isFinite(bestLapTime) ||
+        bestLapTime <= 0
+      ) {
+        return { error: "Campo 'bestLapTime' deve ser um tempo em ms" };
+      }
+      if (edit.reason === undefined) {
+        return { error: "Campo 'reason' é obrigatório" };
+      }
+      edit.bestLapTime = bestLapTime;
+    }
+
+    return { edit };
+  }
+
+  /**
+   * Trata edições manuais de registros de pilotos
+   * Cada edição aplicada vai para o log de auditoria e para os clientes OUTPUT
+   */
+  private async handleRecordEditRequest(
+    req: IncomingMessage,
+    res: any,
+    eventName: string,
+    pilotName: string,
+    action: RecordEditAction,
+    token?: ApiToken
+  ): Promise<void> {
+    const body = await this.readJsonBodyOrRespond(req, res);
+    if (!body) return;
+
+    const parsed = this.parseRecordEdit(action, body);
+    if (parsed.error !== undefined) {
+      res.writeHead(400, this.getHeaders());
+      res.end(JSON.stringify({ error: parsed.error }));
+      return;
+    }
+    const { edit } = parsed;
+
+    // A auditoria é gravada antes de a edição ser aplicada: se falhar,
+    // nada é alterado
+    let entry: AuditEntry | undefined;
+    const auditChange: RecordEditAudit = async (change) => {
+      entry = await this.auditLog.append({
+        actor: describeActor(token, edit.author, req.socket.remoteAddress),
+        action,
+        event: eventName,
+        pilot: pilotName,
+        reason: edit.reason,
+        before: change.before,
+        after: change.after,
+      });
+    };
+
+    let result: RecordEditResult;
+    try {
+      if (action === "delete-pilot") {
+        result = await deletePilotRecords(
+          eventName,
+          pilotName,
+          { car: edit.car, track: edit.track },
+          auditChange
+        );
+      } else if (action === "rename-pilot") {
+        result = await renamePilot(
+          eventName,
+          pilotName,
+          edit.newName!.trim(),
+          auditChange
+        );
+      } else {
+        result = await overrideBestLap(
+          eventName,
+          pilotName,
+          {
+            bestLapTime: edit.bestLapTime!,
+            reason: edit.reason!,
+            car: edit.car,
+            track: edit.track,
+          },
+          auditChange
+        );
+      }
+    } catch (error) {
+      logger.error("Erro ao editar registros", {
+        event: eventName,
+        pilot: pilotName,
+        error: (error as Error).message,
+      });
+      res.writeHead(500, this.getHeaders());
+      res.end(
+        JSON.stringify({
+          error: entry
+            ? "Erro ao editar registros"
+            : "Erro ao gravar log de auditoria; edição não aplicada",
+          message: (error as Error).message,
+        })
+      );
+      return;
+    }
+
+    if (result.error !== undefined) {
+      res.writeHead(result.code === "not-found" ? 404 : 400, this.getHeaders());
+      res.end(JSON.stringify({ error: result.error, eventName, pilotName }));
+      return;
+    }
+
+    res.writeHead(200, this.getHeaders());
+    res.end(JSON.stringify({ success: true, audit: entry }));
+
+    this.connectionManager.broadcast(
+      {
+        type: "records-edited",
+        data: {
+          action,
+          event: eventName,
+          pilot: pilotName,
+          reason: edit.reason,
+          after: result.after,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { type: "records-edited", event: eventName }
+    );
+  }
+
+  /**
+   * Trata GET /audit?event=...&limit=... (entradas mais recentes)
+   */
+  private handleAuditRequest(
+    res: any,
+    query: Record<string, string | string[] | undefined>
+  ): void {
+    const event = Array.isArray(query.event) ? query.event[0] : query.event;
+    const rawLimit = Array.isArray(query.limit) ? query.limit[0] : query.limit;
+    const limit = rawLimit === undefined ? 100 : Number(rawLimit);
+
+    if (!Number.isInteger(limit) || limit < 1) {
+      res.writeHead(400, this.getHeaders());
+      res.end(JSON.stringify({ error: `limit inválido: ${rawLimit}` }));
+      return;
+    }
+
+    this.auditLog
+      .read({ event, limit })
+      .then((entries) => {
+        res.writeHead(200, this.getHeaders());
+        res.end(JSON.stringify({ entries }));
+      })
+      .catch((error) => {
+        res.writeHead(500, this.getHeaders());
+        res.end(
+          JSON.stringify({
+            error: "Erro ao ler log de auditoria",
+            message: (error as Error).message,
+          })
+        );
+      });
+  }
+
+  /**
+   * Trata GET /recordings (gravação em andamento e gravações salvas)
+   */
+  private handleListRecordingsRequest(res: any): void {
+    this.recorder
+      .list()
+      .then((recordings) => {
+        res.writeHead(200, this.getHeaders());
+        res.end(
+          JSON.stringify({ current: this.recorder.current, recordings })
+        );
+      })
+      .catch((error) => {
+        res.writeHead(500, this.getHeaders());
+        res.end(
+          JSON.stringify({
+            error: "Erro ao listar gravações",
+            message: (error as Error).message,
+          })
+        );
+      });
+  }
+
+  /**
+   * Trata POST /recordings/start ({ name?, simNums? })
+   */
+  private async handleStartRecordingRequest(
+    req: IncomingMessage,
+    res: any
+  ): Promise<void> {
+    const body = await this.readJsonBodyOrRespond(req, res);
+    if (!body) return;
+
+    if (body.name !== undefined && typeof body.name !== "string") {
+      res.writeHead(400, this.getHeaders());
+      res.end(JSON.stringify({ error: "Campo 'name' deve ser uma string" }));
+      return;
+    }
+    if (
+      body.simNums !== undefined &&
+      (!Array.isArray(body.simNums) ||
+        !body.simNums.every((simNum: unknown) =>
+          this.roster.has(simNum as number)
+        ))
+    ) {
+      res.writeHead(400, this.getHeaders());
+      res.end(
+        JSON.stringify({
+          error: `Campo 'simNums' deve ser uma lista de simuladores do roster (${this.roster.describeSimNums()})`,
+        })
+      );
+      return;
+    }
+
+    try {
+      const result = await this.recorder.start({
+        name: body.name,
+        simNums: body.simNums,
+      });
+      if (result.error !== undefined) {
+        res.writeHead(409, this.getHeaders());
+        res.end(JSON.stringify({ error: result.error }));
+        return;
+      }
+
+      res.writeHead(201, this.getHeaders());
+      res.end(JSON.stringify({ recording: result.recording }));
+    } catch (error) {
+      res.writeHead(500, this.getHeaders());
+      res.end(
+        JSON.stringify({
+          error: "Erro ao iniciar gravação",
+          message: (error as Error).message,
+        })
+      );
+    }
+  }
+
+  /**
+   * Trata POST /recordings/stop
+   */
+  private async handleStopRecordingRequest(res: any): Promise<void> {
+    try {
+      const recording = await this.recorder.stop();
+      if (!recording) {
+        res.writeHead(409, this.getHeaders());
+        res.end(JSON.stringify({ error: "Nenhuma gravação em andamento" }));
+        return;
+      }
+
+      res.writeHead(200, this.getHeaders());
+      res.end(JSON.stringify({ recording }));
+    } catch (error) {
+      res.writeHead(500, this.getHeaders());
+      res.end(
+        JSON.stringify({
+          error: "Erro ao encerrar gravação",
+          message: (error as Error).message,
+        })
+      );
+    }
+  }
+
+  /**
+   * Trata GET /recordings/:id
+   */
+  private handleRecordingRequest(res: any, id: string): void {
+    this.recorder
+      .get(id)
+      .then((recording) => {
+        if (!recording) {
+          res.writeHead(404, this.getHeaders());
+          res.end(JSON.stringify({ error: `Gravação não encontrada: ${id}` }));
+          return;
+        }
+        res.writeHead(200, this.getHeaders());
+        res.end(JSON.stringify({ recording }));
+      })
+      .catch((error) => {
+        res.writeHead(500, this.getHeaders());
+        res.end(
+          JSON.stringify({
+            error: "Erro ao ler gravação",
+            message: (error as Error).message,
+          })
+        );
+      });
+  }
+
+  /**
+   * Trata GET /recordings/:id/download
+   * Envia todas as partes concatenadas (ou apenas `file`) como NDJSON
+   */
+  private async handleDownloadRecordingRequest(
+    res: any,
+    id: string,
+    file?: string
+  ): Promise<void> {
+    let result: RecordingFilesResult;
+    try {
+      result = await this.recorder.resolveFiles(id, file);
+    } catch (error) {
+      res.writeHead(500, this.getHeaders());
+      res.end(
+        JSON.stringify({
+          error: "Erro ao ler gravação",
+          message: (error as Error).message,
+        })
+      );
+      return;
+    }
+    if (result.error !== undefined) {
+      res.writeHead(404, this.getHeaders());
+      res.end(JSON.stringify({ error: result.error }));
+      return;
+    }
+
+    const filename = file ?? `${id}.ndjson`;
+    res.writeHead(200, {
+      ...this.getHeaders("application/x-ndjson"),
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    });
+
+    try {
+      for (const filepath of result.files) {
+        await new Promise<void>((resolve, reject) => {
+          const stream = createReadStream(filepath);
+          stream.on("error", reject);
+          stream.on("end", resolve);
+          stream.pipe(res, { end: false });
+        });
+      }
+    } catch (error) {
+      logger.error("Erro ao enviar gravação", {
+        id,
+        error: (error as Error).message,
+      });
+      // Interrompe a conexão para o cliente não tomar o arquivo como completo
+      res.destroy();
+      return;
+    }
+    res.end();
+  }
+
+  /**
+   * Trata POST /replay/start | pause | resume | seek | speed | stop
+   */
+  private async handleReplayRequest(
+    req: IncomingMessage,
+    res: any,
+    action: string
+  ): Promise<void> {
+    const body = await this.readJsonBodyOrRespond(req, res);
+    if (!body) return;
+
+    const badRequest = (error: string) => {
+      res.writeHead(400, this.getHeaders());
+      res.end(JSON.stringify({ error }));
+    };
+    const speedError = "Campo 'speed' deve ser um número entre 0.5 e 10";
+    const isPosition = (value: unknown): value is number =>
+      typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+    let result: ReplayControlResult;
+    switch (action) {
+      case "start": {
+        if (typeof body.recording !== "string") {
+          return badRequest(
+            "Campo 'recording' (id da gravação) é obrigatório"
+          );
+        }
+        const speed = body.speed ?? 1;
+        if (!isValidReplaySpeed(speed)) return badRequest(speedError);
+        if (
+          body.muteLive !== undefined &&
+          typeof body.muteLive !== "boolean"
+        ) {
+          return badRequest("Campo 'muteLive' deve ser booleano");
+        }
+        const from = body.from ?? 0;
+        if (!isPosition(from)) {
+          return badRequest("Campo 'from' deve ser uma posição em ms (>= 0)");
+        }
+
+        let files: RecordingFilesResult;
+        try {
+          files = await this.recorder.resolveFiles(body.recording);
+        } catch (error) {
           res.writeHead(500, this.getHeaders());
           res.end(
             JSON.stringify({
-              error: "Erro ao listar eventos",
+              error: "Erro ao ler gravação",
               message: (error as Error).message,
             })
           );
+          return;
+        }
+        if (files.error !== undefined) {
+          res.writeHead(404, this.getHeaders());
+          res.end(JSON.stringify({ error: files.error }));
+          return;
+        }
+
+        result = this.replayer.start(body.recording, files.files, {
+          speed,
+          muteLive: body.muteLive ?? false,
+          from,
         });
-      return;
+        break;
+      }
+      case "pause":
+        result = this.replayer.pause();
+        break;
+      case "resume":
+        result = this.replayer.resume();
+        break;
+      case "seek":
+        if (!isPosition(body.position)) {
+          return badRequest(
+            "Campo 'position' deve ser uma posição em ms (>= 0)"
+          );
+        }
+        result = this.replayer.seek(body.position);
+        break;
+      case "speed":
+        if (!isValidReplaySpeed(body.speed)) return badRequest(speedError);
+        result = this.replayer.setSpeed(body.speed);
+        break;
+      default:
+        result = this.replayer.stop();
     }
 
-    if (req.method === "POST") {
-      // Obter dados de um evento específico
-      let body = "";
-
-      req.on("data", (chunk) => {
-        body += chunk.toString();
-      });
+    if (result.error !== undefined) {
+      res.writeHead(result.code, this.getHeaders());
+      res.end(JSON.stringify({ error: result.error }));
+      return;
+    }
 
-      req.on("end", async () => {
-        try {
-          const { eventName } = JSON.parse(body);
+    res.writeHead(action === "start" ? 201 : 200, this.getHeaders());
+    res.end(JSON.stringify({ replay: result.state }));
+  }
 
-          if (!eventName) {
-            res.writeHead(400, this.getHeaders());
-            res.end(
-              JSON.stringify({
-                error: "Campo 'eventName' é obrigatório",
-              })
-            );
-            return;
-          }
+  /**
+   * Envia "replay-status" (estado do replay) aos clientes OUTPUT
+   */
+  private broadcastReplayState(state: ReplayState): void {
+    this.connectionManager.broadcast(
+      {
+        type: "replay-status",
+        data: state,
+        timestamp: new Date().toISOString(),
+      },
+      { type: "replay-status" }
+    );
+  }
 
-          const eventData = await getEventData(eventName);
+  /**
+   * Trata GET /events/:event/export?format=csv|json|html
+   * Aceita os filtros do leaderboard (car, track, simNum)
+   */
+  private async handleExportRequest(
+    res: any,
+    eventName: string,
+    query: Record<string, string | string[] | undefined>
+  ): Promise<void> {
+    const rawFormat = Array.isArray(query.format)
+      ? query.format[0]
+      : query.format;
+    const format = (rawFormat ?? "csv") as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      res.writeHead(400, this.getHeaders());
+      res.end(
+        JSON.stringify({
+          error: `Formato inválido: ${rawFormat}. Use ${EXPORT_FORMATS.join(" | ")}`,
+        })
+      );
+      return;
+    }
 
-          if (!eventData) {
-            res.writeHead(404, this.getHeaders());
-            res.end(
-              JSON.stringify({
-                error: "Evento não encontrado",
-                eventName,
-              })
-            );
-            return;
-          }
+    const parsed = parseLeaderboardQuery(query);
+    if (parsed.error !== undefined) {
+      res.writeHead(400, this.getHeaders());
+      res.end(JSON.stringify({ error: parsed.error }));
+      return;
+    }
 
-          res.writeHead(200, this.getHeaders());
-          res.end(JSON.stringify(eventData));
-        } catch (error) {
-          res.writeHead(400, this.getHeaders());
-          res.end(
-            JSON.stringify({
-              error: "JSON inválido ou erro ao processar",
-              message: (error as Error).message,
-            })
-          );
-        }
-      });
+    try {
+      const results = await getEventResults(eventName, parsed.query);
+      if (!results) {
+        res.writeHead(404, this.getHeaders());
+        res.end(JSON.stringify({ error: "Evento não encontrado", eventName }));
+        return;
+      }
 
-      return;
+      if (format === "json") {
+        res.writeHead(200, this.getHeaders());
+        res.end(JSON.stringify(resultsToJson(results)));
+      } else if (format === "html") {
+        res.writeHead(200, this.getHeaders("text/html; charset=utf-8"));
+        res.end(resultsToHtml(results));
+      } else {
+        const filename = exportFilename(results.event.eventName, "csv");
+        res.writeHead(200, {
+          ...this.getHeaders("text/csv; charset=utf-8"),
+          "Content-Disposition": `attachment; filename="${filename}"`,
+        });
+        res.end(resultsToCsv(results));
+      }
+    } catch (error) {
+      res.writeHead(500, this.getHeaders());
+      res.end(
+        JSON.stringify({
+          error: "Erro ao exportar resultados",
+          message: (error as Error).message,
+        })
+      );
     }
+  }
 
-    // Método não permitido
-    res.writeHead(405, this.getHeaders());
-    res.end(JSON.stringify({ error: "Método não permitido" }));
+  /**
+   * Trata GET /export/events: um CSV por evento em multipart/mixed
+   */
+  private async handleBulkExportRequest(res: any): Promise<void> {
+    try {
+      const boundary = `resultados-${randomUUID()}`;
+      const body = resultsToMultipartCsv(await getAllEventResults(), boundary);
+
+      res.writeHead(
+        200,
+        this.getHeaders(`multipart/mixed; boundary=${boundary}`)
+      );
+      res.end(body);
+    } catch (error) {
+      res.writeHead(500, this.getHeaders());
+      res.end(
+        JSON.stringify({
+          error: "Erro ao exportar resultados",
+          message: (error as Error).message,
+        })
+      );
+    }
   }
 
   /**
@@ -201,6 +1910,7 @@ export class WebSocketSimulatorServer {
           if (eventName) {
             // Recarregar evento específico
             await reloadEventData(eventName);
+            await this.refreshGlobalEvent();
             res.writeHead(200, this.getHeaders());
             res.end(
               JSON.stringify({
@@ -212,6 +1922,7 @@ export class WebSocketSimulatorServer {
           } else {
             // Recarregar todos os eventos
             await reloadAllEvents();
+            await this.refreshGlobalEvent();
             res.writeHead(200, this.getHeaders());
             res.end(
               JSON.stringify({
@@ -251,7 +1962,11 @@ export class WebSocketSimulatorServer {
   /**
    * Trata requisições HTTP POST para /api/input (fallback quando WebSocket não funciona)
    */
-  private handleHttpInput(req: IncomingMessage, res: any): void {
+  private handleHttpInput(
+    req: IncomingMessage,
+    res: any,
+    token?: ApiToken
+  ): void {
     let body = "";
 
     req.on("data", (chunk) => {
@@ -259,30 +1974,92 @@ export class WebSocketSimulatorServer {
     });
 
     req.on("end", async () => {
+      const receivedAt = performance.now();
+      let parsed: unknown;
       try {
-        const data = JSON.parse(body) as RawSimulatorData;
+        parsed = JSON.parse(body);
+      } catch (error) {
+        this.metrics.recordInvalid("json");
+        logger.error("Erro ao processar HTTP input", {
+          error: (error as Error).message
+        });
+        res.writeHead(400, this.getHeaders());
+        res.end(JSON.stringify({
+          error: "JSON inválido",
+          message: (error as Error).message
+        }));
+        return;
+      }
 
-        // Validar campos obrigatórios
-        if (!data["pilot-name"] || !data.event) {
-          res.writeHead(400, this.getHeaders());
-          res.end(JSON.stringify({
-            error: "Campos obrigatórios: pilot-name, event, bestTime ou bestLap"
-          }));
-          return;
-        }
+      // Validar contra o schema (telemetria opcional neste endpoint)
+      const validation = this.validateSimulatorData(parsed, false);
+      if (!validation.ok) {
+        this.metrics.recordInvalid("schema");
+        logger.warn("Dados inválidos em POST /api/input", {
+          errors: validation.issues
+        });
+        res.writeHead(400, this.getHeaders());
+        res.end(JSON.stringify({
+          error: "Dados inválidos",
+          errors: validation.issues
+        }));
+        return;
+      }
+      const data = validation.data;
+      this.applyAssignedEvent(data);
 
-        logger.info(`📨 HTTP POST /api/input recebido`, {
-          pilot: data["pilot-name"],
-          event: data.event,
-          bestTime: data.bestTime,
-          bestLap: data.bestLap
+      if (!data.event) {
+        this.metrics.recordInvalid("schema");
+        res.writeHead(400, this.getHeaders());
+        res.end(JSON.stringify({
+          error: "Dados inválidos",
+          errors: [{ path: "event", reason: "campo obrigatório ausente" }]
+        }));
+        return;
+      }
+
+      // Token de simulador associado a outro simNum
+      if (!this.isSimNumAllowed(token, data.simNum)) {
+        this.metrics.recordInvalid("forbidden-sim");
+        logger.warn("simNum não permitido para o token", {
+          simNum: data.simNum,
+          allowed: token?.simNum,
+          remoteAddress: req.socket.remoteAddress,
         });
+        res.writeHead(403, this.getHeaders());
+        res.end(JSON.stringify({
+          error: `Token não autorizado para o simulador ${data.simNum}`
+        }));
+        return;
+      }
 
-        // Processar e salvar melhor volta
-        await processBestLap(data);
+      this.metrics.recordReceived(data.simNum, "http");
+      logger.info(`📨 HTTP POST /api/input recebido`, {
+        pilot: data["pilot-name"],
+        event: data.event,
+        bestTime: data.bestTime,
+        bestLap: data.bestLap
+      });
 
-        // Broadcast para clientes OUTPUT (se houver)
-        this.connectionManager.broadcastToOutputs(data);
+      try {
+        // Processar e salvar melhor volta, voltas e setores
+        await this.processLapData(data);
+
+        // Guardar último estado para snapshots
+        this.simulatorStates.update(data);
+        this.connectionManager.recordSimulatorData(data.simNum);
+
+        // Gravar telemetria (se houver gravação em andamento)
+        this.recorder.record(data);
+
+        // Broadcast para clientes OUTPUT (retido durante replay com muteLive)
+        if (!this.replayer.mutesLive) {
+          this.metrics.recordBroadcast(
+            data.simNum,
+            this.connectionManager.broadcastToOutputs(data),
+            receivedAt
+          );
+        }
 
         res.writeHead(200, this.getHeaders());
         res.end(JSON.stringify({
@@ -291,14 +2068,13 @@ export class WebSocketSimulatorServer {
           pilot: data["pilot-name"],
           event: data.event
         }));
-
       } catch (error) {
         logger.error("Erro ao processar HTTP input", {
           error: (error as Error).message
         });
-        res.writeHead(400, this.getHeaders());
+        res.writeHead(500, this.getHeaders());
         res.end(JSON.stringify({
-          error: "JSON inválido",
+          error: "Erro ao processar dados",
           message: (error as Error).message
         }));
       }
@@ -326,6 +2102,37 @@ export class WebSocketSimulatorServer {
       return;
     }
 
+    // Verificar token e papel
+    const auth = this.authenticator.authorize(
+      request,
+      parsedUrl.query,
+      pathname === "/input" ? ["simulator"] : ["display"]
+    );
+    if (!auth.ok) {
+      logger.warn(`Conexão WebSocket negada em ${pathname}`, {
+        status: auth.status,
+        reason: auth.reason,
+        remoteAddress: request.socket.remoteAddress,
+      });
+      const statusText = auth.status === 401 ? "Unauthorized" : "Forbidden";
+      socket.write(`HTTP/1.1 ${auth.status} ${statusText}\r\n\r\n`);
+      socket.destroy();
+      return;
+    }
+
+    // Validar filtros de assinatura e opções na URL (?sims=1,2&mode=delta)
+    if (pathname === "/output") {
+      const error =
+        parseSubscriptionQuery(parsedUrl.query).error ??
+        parseOutputOptionsQuery(parsedUrl.query).error;
+      if (error) {
+        logger.warn(`Parâmetros inválidos na URL de /output: ${error}`);
+        socket.write("HTTP/1.1 400 Bad Request\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+    }
+
     // Fazer upgrade
     this.wss.handleUpgrade(request, socket, head, (ws) => {
       this.wss.emit("connection", ws, request);
@@ -339,26 +2146,41 @@ export class WebSocketSimulatorServer {
     const parsedUrl = parse(request.url || "", true);
     const pathname = parsedUrl.pathname;
 
+    // Já validado em handleUpgrade; aqui apenas recupera o token
+    const auth = this.authenticator.authorize(
+      request,
+      parsedUrl.query,
+      pathname === "/input" ? ["simulator"] : ["display"]
+    );
+    const token = auth.ok ? auth.token : undefined;
+
     if (pathname === "/input") {
-      this.handleInputConnection(ws);
+      this.handleInputConnection(ws, token);
     } else if (pathname === "/output") {
-      this.handleOutputConnection(ws);
+      this.handleOutputConnection(ws, parsedUrl.query, token);
     }
   }
 
   /**
    * Trata conexão INPUT (recebe dados de simuladores)
    */
-  private handleInputConnection(ws: WebSocket): void {
-    const clientId = this.connectionManager.addClient(ws, "input");
+  private handleInputConnection(ws: WebSocket, token?: ApiToken): void {
+    const clientId = this.connectionManager.addClient(ws, "input", token?.role);
+
+    // Token associado a um simNum: simulador já é conhecido na conexão
+    if (token?.simNum !== undefined) {
+      this.connectionManager.setSimulatorId(clientId, token.simNum);
+    }
 
     ws.on("message", (data: Buffer) => {
+      const receivedAt = performance.now();
       try {
         logger.debug("Mensagem recebida em /input", { raw: data.toString() });
         const message = JSON.parse(data.toString()) as InputMessage;
 
         // Validar mensagem
         if (message.type !== "simulator-update" || !message.data) {
+          this.metrics.recordInvalid("format");
           logger.warn("Mensagem inválida recebida em /input", { 
             message,
             esperado: { type: "simulator-update", data: "{...}" }
@@ -370,34 +2192,71 @@ export class WebSocketSimulatorServer {
           return;
         }
 
-        // Validar dados essenciais
-        if (!this.validateSimulatorData(message.data)) {
+        // Validar dados contra o schema
+        const validation = this.validateSimulatorData(message.data, true);
+        if (!validation.ok) {
+          this.metrics.recordInvalid("schema");
           logger.warn("Dados de simulador inválidos", { 
             data: message.data,
-            camposObrigatorios: ["simNum (1-3)", "pilot-name", "car", "track"]
+            errors: validation.issues
+          });
+          ws.send(JSON.stringify({
+            type: "error",
+            message: "Dados inválidos",
+            errors: validation.issues
+          }));
+          return;
+        }
+        const simData = validation.data;
+        this.applyAssignedEvent(simData);
+
+        // Token de simulador associado a outro simNum
+        if (!this.isSimNumAllowed(token, simData.simNum)) {
+          this.metrics.recordInvalid("forbidden-sim");
+          logger.warn("simNum não permitido para o token", {
+            clientId,
+            simNum: simData.simNum,
+            allowed: token?.simNum,
           });
           ws.send(JSON.stringify({
             type: "error",
-            message: "Dados inválidos. Campos obrigatórios: simNum (1-3), pilot-name, car, track"
+            message: `Token não autorizado para o simulador ${simData.simNum}`
           }));
           return;
         }
 
+        // Registrar dados (antes da associação, para ir direto a "streaming")
+        this.connectionManager.recordSimulatorData(simData.simNum);
+        this.metrics.recordReceived(simData.simNum, "ws");
+
         // Associar simulador ao cliente
-        this.connectionManager.setSimulatorId(clientId, message.data.simNum);
+        this.connectionManager.setSimulatorId(clientId, simData.simNum);
+
+        logger.debug(`Dados recebidos do simulador ${simData.simNum}`);
 
-        logger.debug(`Dados recebidos do simulador ${message.data.simNum}`);
+        // Guardar último estado para snapshots
+        this.simulatorStates.update(simData);
 
-        // Processar e salvar melhor volta (se fornecida)
-        processBestLap(message.data).catch((error) => {
-          logger.error("Erro ao processar melhor volta", {
+        // Processar e salvar melhor volta, voltas e setores
+        this.processLapData(simData).catch((error) => {
+          logger.error("Erro ao processar dados de volta", {
             error: (error as Error).message,
           });
         });
 
-        // Distribuir para clientes OUTPUT
-        this.connectionManager.broadcastToOutputs(message.data);
+        // Gravar telemetria (se houver gravação em andamento)
+        this.recorder.record(simData);
+
+        // Distribuir para clientes OUTPUT (retido durante replay com muteLive)
+        if (!this.replayer.mutesLive) {
+          this.metrics.recordBroadcast(
+            simData.simNum,
+            this.connectionManager.broadcastToOutputs(simData),
+            receivedAt
+          );
+        }
       } catch (error) {
+        this.metrics.recordInvalid("json");
         logger.error("Erro ao processar mensagem INPUT", {
           error: (error as Error).message,
         });
@@ -413,11 +2272,100 @@ export class WebSocketSimulatorServer {
     );
   }
 
+  /**
+   * Processa melhor volta, voltas completadas e setores de um update
+   * e distribui os setores completados para os clientes OUTPUT
+   */
+  private async processLapData(data: RawSimulatorData): Promise<void> {
+    const rejection = await checkEventAcceptsLaps(
+      data,
+      this.config.requireEventCreation
+    );
+    if (rejection) {
+      if (this.lapRejections.get(data.simNum) !== rejection) {
+        logger.warn(`Voltas do simulador ${data.simNum} ignoradas: ${rejection}`);
+        this.lapRejections.set(data.simNum, rejection);
+      }
+      return;
+    }
+    this.lapRejections.delete(data.simNum);
+
+    // Histórico antes da melhor volta: a validade vem da volta completada
+    await processLapCompletion(data);
+
+    const change = await processBestLap(data);
+    if (change) this.broadcastLeaderboardChange(change);
+
+    const sectors = await processSectorTimes(data);
+    for (const sector of sectors) {
+      this.connectionManager.broadcast(
+        {
+          type: "sector-complete",
+          data: sector,
+          timestamp: new Date().toISOString(),
+        },
+        { type: "sector-complete", simNum: sector.simNum, event: sector.event }
+      );
+    }
+  }
+
+  /**
+   * Envia "leaderboard-update" com as posições do piloto e o top-N do evento
+   */
+  private broadcastLeaderboardChange(change: LeaderboardChange): void {
+    const { leaderboard, ...rest } = change;
+
+    this.connectionManager.broadcast(
+      {
+        type: "leaderboard-update",
+        data: {
+          ...rest,
+          top: leaderboard.slice(0, this.config.leaderboardTopN),
+          total: leaderboard.length,
+        },
+        timestamp: new Date().toISOString(),
+      },
+      { type: "leaderboard-update", event: change.event }
+    );
+  }
+
   /**
    * Trata conexão OUTPUT (envia dados para displays)
    */
-  private handleOutputConnection(ws: WebSocket): void {
-    this.connectionManager.addClient(ws, "output");
+  private handleOutputConnection(
+    ws: WebSocket,
+    query: Record<string, string | string[] | undefined>,
+    token?: ApiToken
+  ): void {
+    const clientId = this.connectionManager.addClient(
+      ws,
+      "output",
+      token?.role
+    );
+
+    // Assinatura inicial vinda da URL (já validada em handleUpgrade)
+    const initial = parseSubscriptionQuery(query);
+    if (initial.subscription) {
+      this.connectionManager.setSubscription(clientId, initial.subscription);
+    }
+
+    // Opções de entrega iniciais vindas da URL (?mode=delta)
+    const initialOptions = parseOutputOptionsQuery(query);
+    if (initialOptions.options) {
+      this.connectionManager.setOutputOptions(clientId, initialOptions.options);
+    }
+
+    ws.on("message", (data: Buffer) => {
+      try {
+        const message = JSON.parse(data.toString());
+        this.handleOutputMessage(clientId, ws, message);
+      } catch (error) {
+        logger.error("Erro ao processar mensagem OUTPUT", {
+          error: (error as Error).message,
+        });
+        ws.send(JSON.stringify({ type: "error", message: "JSON inválido" }));
+      }
+    });
 
     // Enviar confirmação de conexão
     ws.send(
@@ -425,6 +2373,8 @@ export class WebSocketSimulatorServer {
         type: "connected",
         message:
           "Conectado ao endpoint /output. Aguardando dados de simuladores...",
+        subscription: initial.subscription ?? {},
+        options: initialOptions.options,
       })
     );
 
@@ -436,26 +2386,191 @@ export class WebSocketSimulatorServer {
         data: stats,
       })
     );
+
+    // Enviar estado atual de todos os simuladores
+    this.sendSnapshot(clientId).catch((error) => {
+      logger.error("Erro ao enviar snapshot", {
+        clientId,
+        error: (error as Error).message,
+      });
+    });
+  }
+
+  /**
+   * Trata mensagens de controle recebidas de um cliente OUTPUT
+   */
+  private handleOutputMessage(clientId: string, ws: WebSocket, message: any): void {
+    switch (message?.type) {
+      case "subscribe": {
+        const result = normalizeSubscription(message);
+        if (result.error !== undefined) {
+          ws.send(JSON.stringify({ type: "error", message: result.error }));
+          return;
+        }
+
+        this.connectionManager.setSubscription(clientId, result.subscription);
+
+        // Confirmar nova assinatura
+        ws.send(
+          JSON.stringify({
+            type: "subscribed",
+            subscription: result.subscription,
+            timestamp: new Date().toISOString(),
+          })
+        );
+        return;
+      }
+
+      case "configure": {
+        const client = this.connectionManager.getClient(clientId);
+        const result = normalizeOutputOptions(message, client?.outputOptions);
+        if (result.error !== undefined) {
+          ws.send(JSON.stringify({ type: "error", message: result.error }));
+          return;
+        }
+
+        this.connectionManager.setOutputOptions(clientId, result.options);
+
+        ws.send(
+          JSON.stringify({
+            type: "configured",
+            options: result.options,
+            timestamp: new Date().toISOString(),
+          })
+        );
+        return;
+      }
+
+      case "resync": {
+        // Cliente detectou lacuna na sequência: reenviar keyframes
+        const simNum =
+          typeof message.simNum === "number" ? message.simNum : undefined;
+        this.connectionManager.resyncClient(
+          clientId,
+          this.simulatorStates.getAll(),
+          simNum
+        );
+        return;
+      }
+
+      default:
+        logger.warn("Mensagem inválida recebida em /output", { message });
+        ws.send(
+          JSON.stringify({
+            type: "error",
+            message:
+              "Tipo de mensagem inválido. Esperado: 'subscribe', 'configure' ou 'resync'",
+          })
+        );
+    }
   }
 
   /**
-   * Valida dados mínimos do simulador
+   * Envia a um cliente OUTPUT o último estado de cada simulador
+   * e o leaderboard do evento ativo
    */
-  private validateSimulatorData(data: RawSimulatorData): boolean {
-    return (
-      typeof data.simNum === "number" &&
-      data.simNum >= 1 &&
-      data.simNum <= 3 &&
-      typeof data["pilot-name"] === "string" &&
-      typeof data.car === "string" &&
-      typeof data.track === "string"
+  private async sendSnapshot(clientId: string): Promise<void> {
+    const client = this.connectionManager.getClient(clientId);
+    if (!client) return;
+
+    const simulators = this.simulatorStates.getAll().filter((state) =>
+      matchesSubscription(client.subscription, {
+        type: "simulator-update",
+        simNum: state.simNum,
+        event: state.data.event || DEFAULT_EVENT_NAME,
+      })
+    );
+
+    // Evento ativo: o marcado via API ou, sem ele, o do simulador que
+    // enviou dados por último
+    const mostRecent = this.simulatorStates.getMostRecent();
+    const activeEvent =
+      (await getActiveEvent()) ??
+      (mostRecent?.data.event || DEFAULT_EVENT_NAME);
+    const leaderboard = await getEventLeaderboard(activeEvent);
+
+    if (client.ws.readyState !== WebSocket.OPEN) return;
+
+    client.ws.send(
+      JSON.stringify({
+        type: "snapshot",
+        data: {
+          simulators,
+          event: activeEvent,
+          leaderboard,
+          replay: this.replayer.getState(),
+        },
+        timestamp: new Date().toISOString(),
+      })
     );
   }
 
+  /**
+   * Preenche "event" ausente com o evento do simulador ou o evento ativo
+   */
+  private applyAssignedEvent(data: RawSimulatorData): void {
+    if (data.event) return;
+    const event = this.eventAssignments.resolve(data.simNum);
+    if (event) data.event = event;
+  }
+
+  /**
+   * Verifica se o token pode enviar dados do simulador informado
+   */
+  private isSimNumAllowed(token: ApiToken | undefined, simNum: number): boolean {
+    return token?.simNum === undefined || token.simNum === simNum;
+  }
+
+  /**
+   * Valida dados do simulador contra o schema e o roster
+   * requireTelemetry = false aceita payloads só com piloto/volta (POST /api/input)
+   */
+  private validateSimulatorData(
+    raw: unknown,
+    requireTelemetry: boolean
+  ): SchemaResult {
+    if (typeof raw === "object" && raw !== null && !Array.isArray(raw)) {
+      this.roster.fillFixedFields(raw as Record<string, unknown>);
+    }
+
+    const result = validateRawSimulatorData(raw, {
+      mode: this.config.inputValidationMode,
+      requireTelemetry,
+    });
+    if (!result.ok) return result;
+
+    const rosterIssue = this.roster.check(result.data);
+    if (rosterIssue) return { ok: false, issues: [rosterIssue] };
+
+    if (result.issues.length > 0) {
+      logger.debug(`Dados do simulador ${result.data.simNum} ajustados`, {
+        mode: this.config.inputValidationMode,
+        issues: result.issues,
+      });
+    }
+
+    return result;
+  }
+
   /**
    * Inicia o servidor
    */
-  start(): Promise<void> {
+  async start(): Promise<void> {
+    await initStorage(this.config.storageBackend, this.config.sqlitePath);
+
+    // Recuperar mudanças do journal antes de aceitar dados
+    try {
+      await replayJournals();
+    } catch (error) {
+      logger.error("Erro ao reaplicar journal", {
+        error: (error as Error).message,
+      });
+    }
+
+    if (this.config.recordingAutostart) {
+      await this.recorder.start({ name: "auto" });
+    }
+
     return new Promise((resolve) => {
       this.httpServer.listen(this.config.port, this.config.host, () => {
         logger.info(
@@ -473,13 +2588,39 @@ export class WebSocketSimulatorServer {
         logger.info(
           `   📊 Stats:          http://${this.config.host}:${this.config.port}/stats`
         );
+        logger.info(
+          `   📈 Metrics:        http://${this.config.host}:${this.config.port}/metrics`
+        );
         logger.info(
           `   🔄 Reload:         http://${this.config.host}:${this.config.port}/reload`
         );
+        logger.info(
+          `   🏁 Roster:         ${this.roster.getAll().length} simulador(es) (${this.roster.describeSimNums()})`
+        );
+
+        if (!this.authenticator.enabled) {
+          logger.warn(
+            "⚠️  Autenticação desabilitada (API_TOKENS não configurado)"
+          );
+        }
+
+        // Heartbeat para detectar conexões mortas
+        this.connectionManager.startHeartbeat();
+        this.connectionManager.startPresenceTracking();
+        this.metrics.start();
 
         // Inicializar file watcher para hot reload automático
         initFileWatcher();
 
+        // Evento ativo e trocas agendadas para dados sem "event"
+        Promise.all([this.eventAssignments.load(), this.refreshGlobalEvent()])
+          .then(() => this.eventAssignments.start())
+          .catch((error) => {
+            logger.error("Erro ao carregar evento ativo", {
+              error: (error as Error).message,
+            });
+          });
+
         resolve();
       });
     });
@@ -492,8 +2633,15 @@ export class WebSocketSimulatorServer {
     return new Promise((resolve) => {
       logger.info("Parando servidor...");
 
-      // Salvar dados pendentes
-      flushPendingWrites()
+      this.connectionManager.stopHeartbeat();
+      this.connectionManager.stopPresenceTracking();
+      this.eventAssignments.stop();
+      this.replayer.stop();
+      this.metrics.stop();
+
+      // Salvar dados pendentes, encerrar a gravação e fechar o armazenamento
+      Promise.all([flushPendingWrites(), this.recorder.stop()])
+        .then(() => closeStorage())
         .then(() => {
           // Desconectar todos os clientes
           this.connectionManager.disconnectAll();
@@ -0,0 +1,343 @@
+import { createReadStream } from "fs";
+import { createInterface } from "readline";
+import type {
+  RawSimulatorData,
+  RecordedUpdate,
+  ReplayState,
+  ReplayTag,
+} from "./types.js";
+import { logger } from "./logger.js";
+
+export const MIN_REPLAY_SPEED = 0.5;
+export const MAX_REPLAY_SPEED = 10;
+
+/**
+ * Resultado de um comando de replay (code = status HTTP em caso de erro)
+ */
+export type ReplayControlResult =
+  | { state: ReplayState; error?: undefined }
+  | { state?: undefined; error: string; code: number };
+
+/**
+ * Replay em andamento
+ * O relógio do replay é definido por `anchor`: no instante `wall` a posição
+ * era `position`, avançando `speed` ms de gravação por ms real
+ */
+interface ReplaySession {
+  state: ReplayState;
+  files: string[];
+  firstAt?: number; // receivedAt do primeiro update da gravação (epoch ms)
+  anchor: { wall: number; position: number };
+  seekTo?: number; // Posição pedida via seek (aplicada pelo loop)
+  stopped: boolean;
+  wake?: () => void;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Valida a velocidade de um replay
+ */
+export function isValidReplaySpeed(speed: unknown): speed is number {
+  return (
+    typeof speed === "number" &&
+    speed >= MIN_REPLAY_SPEED &&
+    speed <= MAX_REPLAY_SPEED
+  );
+}
+
+/**
+ * Reenvia uma gravação NDJSON com o tempo original (ajustado pela velocidade)
+ * Um replay por vez; as partes são lidas linha a linha, sem carregar a
+ * gravação inteira em memória
+ */
+export class SessionReplayer {
+  private session?: ReplaySession;
+  private broadcast: (data: RawSimulatorData, replay: ReplayTag) => void;
+  private onChange: (state: ReplayState) => void;
+
+  constructor(
+    broadcast: (data: RawSimulatorData, replay: ReplayTag) => void,
+    onChange: (state: ReplayState) => void
+  ) {
+    this.broadcast = broadcast;
+    this.onChange = onChange;
+  }
+
+  /**
+   * Telemetria ao vivo deve ser retida (replay em andamento com muteLive)
+   */
+  get mutesLive(): boolean {
+    return this.session?.state.muteLive ?? false;
+  }
+
+  /**
+   * Estado do replay em andamento (null se nenhum)
+   */
+  getState(): ReplayState | null {
+    return this.session ? this.snapshot(this.session) : null;
+  }
+
+  /**
+   * Inicia o replay das partes de uma gravação
+   */
+  start(
+    recording: string,
+    files: string[],
+    options: { speed: number; muteLive: boolean; from: number }
+  ): ReplayControlResult {
+    if (this.session) {
+      return {
+        error: `Replay já em andamento: ${this.session.state.recording}`,
+        code: 409,
+      };
+    }
+
+    const session: ReplaySession = {
+      state: {
+        recording,
+        status: "playing",
+        speed: options.speed,
+        position: options.from,
+        muteLive: options.muteLive,
+        messages: 0,
+        startedAt: new Date().toISOString(),
+      },
+      files,
+      anchor: { wall: Date.now(), position: options.from },
+      seekTo: options.from,
+      stopped: false,
+    };
+    this.session = session;
+
+    logger.info(`▶️ Replay iniciado: ${recording}`, {
+      speed: options.speed,
+      muteLive: options.muteLive,
+      from: options.from,
+    });
+    const result = this.changed(session);
+
+    this.run(session).catch((error) => {
+      logger.error("Erro durante o replay", {
+        recording,
+        error: (error as Error).message,
+      });
+      this.finish(session, "stopped");
+    });
+
+    return result;
+  }
+
+  /**
+   * Pausa o replay
+   */
+  pause(): ReplayControlResult {
+    const session = this.session;
+    if (!session) return this.notRunning();
+    if (session.state.status === "paused") return this.changed(session);
+
+    session.state.position = this.currentPosition(session);
+    session.state.status = "paused";
+    this.wake(session);
+    return this.changed(session);
+  }
+
+  /**
+   * Retoma um replay pausado
+   */
+  resume(): ReplayControlResult {
+    const session = this.session;
+    if (!session) return this.notRunning();
+    if (session.state.status === "playing") return this.changed(session);
+
+    session.anchor = { wall: Date.now(), position: session.state.position };
+    session.state.status = "playing";
+    this.wake(session);
+    return this.changed(session);
+  }
+
+  /**
+   * Salta para uma posição (ms desde o início da gravação)
+   */
+  seek(position: number): ReplayControlResult {
+    const session = this.session;
+    if (!session) return this.notRunning();
+
+    session.seekTo = position;
+    session.state.position = position;
+    session.anchor = { wall: Date.now(), position };
+    this.wake(session);
+    return this.changed(session);
+  }
+
+  /**
+   * Altera a velocidade sem saltar na gravação
+   */
+  setSpeed(speed: number): ReplayControlResult {
+    const session = this.session;
+    if (!session) return this.notRunning();
+
+    session.anchor = {
+      wall: Date.now(),
+      position: this.currentPosition(session),
+    };
+    session.state.speed = speed;
+    this.wake(session);
+    return this.changed(session);
+  }
+
+  /**
+   * Interrompe o replay
+   */
+  stop(): ReplayControlResult {
+    const session = this.session;
+    if (!session) return this.notRunning();
+
+    return { state: this.finish(session, "stopped") };
+  }
+
+  /**
+   * Lê as partes e envia cada update no seu horário
+   * Um seek recomeça a leitura e descarta updates anteriores à posição pedida
+   */
+  private async run(session: ReplaySession): Promise<void> {
+    while (!session.stopped && session.seekTo !== undefined) {
+      const target = session.seekTo;
+      session.seekTo = undefined;
+      await this.playFrom(session, target);
+    }
+
+    if (!session.stopped) this.finish(session, "finished");
+  }
+
+  private async playFrom(
+    session: ReplaySession,
+    target: number
+  ): Promise<void> {
+    for (const file of session.files) {
+      const lines = createInterface({
+        input: createReadStream(file),
+        crlfDelay: Infinity,
+      });
+
+      try {
+        for await (const line of lines) {
+          if (session.stopped || session.seekTo !== undefined) return;
+
+          const entry = this.parseLine(line);
+          if (!entry) continue;
+
+          const receivedAt = Date.parse(entry.receivedAt);
+          session.firstAt ??= receivedAt;
+          const position = receivedAt - session.firstAt;
+          if (position < target) continue;
+
+          if (!(await this.waitFor(session, position))) return;
+
+          this.broadcast(entry.data, {
+            recording: session.state.recording,
+            receivedAt: entry.receivedAt,
+            speed: session.state.speed,
+          });
+          session.state.messages++;
+        }
+      } finally {
+        lines.close();
+      }
+    }
+  }
+
+  /**
+   * Espera até o horário de um update no relógio do replay
+   * Retorna false se o replay foi interrompido ou recebeu um seek
+   */
+  private async waitFor(
+    session: ReplaySession,
+    position: number
+  ): Promise<boolean> {
+    while (true) {
+      if (session.stopped || session.seekTo !== undefined) return false;
+
+      if (session.state.status === "paused") {
+        await new Promise<void>((resolve) => (session.wake = resolve));
+        continue;
+      }
+
+      const due =
+        session.anchor.wall +
+        (position - session.anchor.position) / session.state.speed;
+      const delay = due - Date.now();
+      if (delay <= 0) return true;
+
+      await new Promise<void>((resolve) => {
+        session.wake = resolve;
+        session.timer = setTimeout(resolve, delay);
+      });
+    }
+  }
+
+  /**
+   * Interrompe a espera atual para o loop reavaliar o estado
+   */
+  private wake(session: ReplaySession): void {
+    if (session.timer) clearTimeout(session.timer);
+    session.timer = undefined;
+    const wake = session.wake;
+    session.wake = undefined;
+    wake?.();
+  }
+
+  private finish(
+    session: ReplaySession,
+    status: "finished" | "stopped"
+  ): ReplayState {
+    session.state.position = this.currentPosition(session);
+    session.stopped = true;
+    session.state.status = status;
+    this.wake(session);
+    if (this.session === session) this.session = undefined;
+
+    const action = status === "finished" ? "concluído" : "interrompido";
+    logger.info(`⏹️ Replay ${action}: ${session.state.recording}`, {
+      messages: session.state.messages,
+    });
+    return this.changed(session).state;
+  }
+
+  private currentPosition(session: ReplaySession): number {
+    if (session.state.status !== "playing") return session.state.position;
+    return Math.round(
+      session.anchor.position +
+        (Date.now() - session.anchor.wall) * session.state.speed
+    );
+  }
+
+  private parseLine(line: string): RecordedUpdate | undefined {
+    if (!line.trim()) return undefined;
+    try {
+      const entry: RecordedUpdate = JSON.parse(line);
+      return entry.data && typeof entry.receivedAt === "string"
+        ? entry
+        : undefined;
+    } catch {
+      logger.warn("Linha inválida na gravação ignorada");
+      return undefined;
+    }
+  }
+
+  private snapshot(session: ReplaySession): ReplayState {
+    return { ...session.state, position: this.currentPosition(session) };
+  }
+
+  /**
+   * Notifica a mudança de estado e a retorna como resultado do comando
+   */
+  private changed(session: ReplaySession): { state: ReplayState } {
+    const state = this.snapshot(session);
+    this.onChange(state);
+    return { state };
+  }
+
+  private notRunning(): ReplayControlResult {
+    return { error: "Nenhum replay em andamento", code: 409 };
+  }
+}
@@ -0,0 +1,61 @@
+import type { RawSimulatorData, SimulatorState } from "./types.js";
+import { logger } from "./logger.js";
+
+/**
+ * Armazena o último estado recebido de cada simulador
+ * Usado para enviar um snapshot imediato a novos clientes OUTPUT
+ */
+export class SimulatorStateStore {
+  private states: Map<number, SimulatorState> = new Map();
+  private ttl: number;
+
+  constructor(ttl: number) {
+    this.ttl = ttl;
+  }
+
+  /**
+   * Registra o estado mais recente de um simulador
+   */
+  update(data: RawSimulatorData): void {
+    this.states.set(data.simNum, {
+      simNum: data.simNum,
+      data,
+      receivedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Lista os estados ainda válidos, ordenados por simNum
+   */
+  getAll(): SimulatorState[] {
+    this.pruneExpired();
+    return Array.from(this.states.values()).sort(
+      (a, b) => a.simNum - b.simNum
+    );
+  }
+
+  /**
+   * Retorna o estado mais recente entre todos os simuladores
+   */
+  getMostRecent(): SimulatorState | undefined {
+    return this.getAll().reduce<SimulatorState | undefined>(
+      (latest, state) =>
+        !latest || state.receivedAt > latest.receivedAt ? state : latest,
+      undefined
+    );
+  }
+
+  /**
+   * Remove estados de simuladores silenciosos há mais de `ttl` ms
+   */
+  private pruneExpired(): void {
+    const now = Date.now();
+
+    for (const [simNum, state] of this.states.entries()) {
+      if (now - new Date(state.receivedAt).getTime() > this.ttl) {
+        this.states.delete(simNum);
+        logger.debug(`Estado do simulador ${simNum} expirado`);
+      }
+    }
+  }
+}
@@ -0,0 +1,202 @@
+import { mkdirSync, promises as fs } from "fs";
+import { basename, dirname, extname, join } from "path";
+import Database from "better-sqlite3";
+import { parseStoredEvent } from "./event-storage.js";
+import type {
+  BackupPolicy,
+  EventLoadResult,
+  EventStorage,
+  StoredEvent,
+} from "./event-storage.js";
+
+// Versão do esquema do banco (PRAGMA user_version)
+const SQLITE_SCHEMA_VERSION = 1;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS events (
+    key TEXT PRIMARY KEY,
+    event_name TEXT NOT NULL,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS laps (
+    key TEXT NOT NULL,
+    pilot TEXT NOT NULL,
+    idx INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (key, pilot, idx)
+  );
+`;
+
+/**
+ * Armazenamento em um banco SQLite embutido
+ * - events: dados do evento (sem o histórico de voltas) como JSON
+ * - laps: uma linha por volta; gravações só acrescentam as voltas novas
+ */
+export class SqliteEventStorage<T extends StoredEvent>
+  implements EventStorage<T>
+{
+  readonly kind = "sqlite";
+  private path: string;
+  private db: Database.Database;
+  private backups?: BackupPolicy;
+  private lastBackupAt = 0;
+
+  constructor(path: string, backups?: BackupPolicy) {
+    this.path = path;
+    this.backups = backups;
+
+    mkdirSync(dirname(path), { recursive: true });
+    this.db = new Database(path);
+    // WAL + FULL: cada transação confirmada sobrevive a um crash
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("synchronous = FULL");
+    this.db.exec(SCHEMA);
+    this.db.pragma(`user_version = ${SQLITE_SCHEMA_VERSION}`);
+  }
+
+  describe(key: string): string {
+    return `${basename(this.path)}:${key}`;
+  }
+
+  async list(): Promise<string[]> {
+    const rows = this.db
+      .prepare("SELECT key FROM events ORDER BY key")
+      .all() as { key: string }[];
+    return rows.map((row) => row.key);
+  }
+
+  async load(key: string): Promise<EventLoadResult<T>> {
+    const row = this.db
+      .prepare("SELECT data FROM events WHERE key = ?")
+      .get(key) as { data: string } | undefined;
+    if (!row) return { status: "missing" };
+
+    const result = parseStoredEvent<T>(row.data);
+    if (result.status !== "ok") return result;
+
+    try {
+      const data = result.data;
+      const lapRows = this.db
+        .prepare(
+          "SELECT pilot, data FROM laps WHERE key = ? ORDER BY pilot, idx"
+        )
+        .all(key) as { pilot: string; data: string }[];
+
+      if (lapRows.length > 0) {
+        const laps: Record<string, unknown[]> = {};
+        for (const lap of lapRows) {
+          (laps[lap.pilot] ??= []).push(JSON.parse(lap.data));
+        }
+        data.laps = laps;
+      }
+
+      return { status: "ok", data };
+    } catch (error) {
+      return { status: "corrupt", error: (error as Error).message };
+    }
+  }
+
+  async save(key: string, data: T): Promise<void> {
+    this.writeEvent(key, data);
+
+    const now = Date.now();
+    if (this.backups && now - this.lastBackupAt >= this.backups.intervalMs) {
+      this.lastBackupAt = now;
+      await this.backup(this.backups);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.db.open) this.db.close();
+  }
+
+  /**
+   * Grava o evento em uma transação, acrescentando apenas as voltas novas
+   * O histórico de um piloto é regravado se não for continuação do gravado
+   * (ex: piloto renomeado ou mesclado)
+   */
+  private writeEvent(key: string, data: T): void {
+    const { laps = {}, ...rest } = data;
+
+    const upsertEvent = this.db.prepare(
+      `INSERT INTO events (key, event_name, data, updated_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT (key) DO UPDATE SET
+         event_name = excluded.event_name,
+         data = excluded.data,
+         updated_at = excluded.updated_at`
+    );
+    const countLaps = this.db.prepare(
+      "SELECT pilot, COUNT(*) AS count FROM laps WHERE key = ? GROUP BY pilot"
+    );
+    const getLap = this.db.prepare(
+      "SELECT data FROM laps WHERE key = ? AND pilot = ? AND idx = ?"
+    );
+    const deleteLaps = this.db.prepare(
+      "DELETE FROM laps WHERE key = ? AND pilot = ?"
+    );
+    const insertLap = this.db.prepare(
+      "INSERT INTO laps (key, pilot, idx, data) VALUES (?, ?, ?, ?)"
+    );
+
+    this.db.transaction(() => {
+      upsertEvent.run(
+        key,
+        data.eventName,
+        JSON.stringify(rest),
+        new Date().toISOString()
+      );
+
+      const stored = new Map(
+        (countLaps.all(key) as { pilot: string; count: number }[]).map(
+          (row) => [row.pilot, row.count]
+        )
+      );
+
+      for (const pilot of stored.keys()) {
+        if (!(pilot in laps)) deleteLaps.run(key, pilot);
+      }
+
+      for (const [pilot, pilotLaps] of Object.entries(laps)) {
+        let from = stored.get(pilot) ?? 0;
+
+        if (from > 0) {
+          const last = getLap.get(key, pilot, from - 1) as
+            | { data: string }
+            | undefined;
+          if (
+            from > pilotLaps.length ||
+            last?.data !== JSON.stringify(pilotLaps[from - 1])
+          ) {
+            deleteLaps.run(key, pilot);
+            from = 0;
+          }
+        }
+
+        for (let idx = from; idx < pilotLaps.length; idx++) {
+          insertLap.run(key, pilot, idx, JSON.stringify(pilotLaps[idx]));
+        }
+      }
+    })();
+  }
+
+  /**
+   * Copia o banco para o diretório de backups e remove os mais antigos
+   */
+  private async backup(policy: BackupPolicy): Promise<void> {
+    const ext = extname(this.path);
+    const backupDir = join(policy.dir, basename(this.path, ext));
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+
+    await fs.mkdir(backupDir, { recursive: true });
+    await this.db.backup(join(backupDir, `${stamp}${ext}`));
+
+    const backups = (await fs.readdir(backupDir))
+      .filter((file) => file.endsWith(ext))
+      .sort();
+    for (const file of backups.slice(0, -policy.maxBackups)) {
+      await fs.unlink(join(backupDir, file));
+    }
+  }
+}
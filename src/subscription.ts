@@ -0,0 +1,122 @@
+import type { OutputSubscription, BroadcastScope } from "./types.js";
+
+/**
+ * Resultado da normalização de uma assinatura
+ */
+export type SubscriptionParseResult =
+  | { subscription: OutputSubscription; error?: undefined }
+  | { subscription?: undefined; error: string };
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Converte um valor de query string (?sims=1,2) em lista de strings
+ */
+function splitQueryValue(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .flatMap((v) => v.split(","))
+    .map((v) => v.trim())
+    .filter((v) => v.length > 0);
+}
+
+/**
+ * Valida e normaliza uma assinatura recebida via mensagem "subscribe"
+ */
+export function normalizeSubscription(raw: unknown): SubscriptionParseResult {
+  if (!isPlainObject(raw)) {
+    return { error: "Assinatura deve ser um objeto" };
+  }
+
+  const subscription: OutputSubscription = {};
+  const { sims, events, types } = raw;
+
+  if (sims !== undefined) {
+    if (
+      !Array.isArray(sims) ||
+      !sims.every((s: unknown) => typeof s === "number" && Number.isInteger(s))
+    ) {
+      return { error: "Campo 'sims' deve ser uma lista de números inteiros" };
+    }
+    if (sims.length > 0) subscription.sims = [...new Set<number>(sims)];
+  }
+
+  if (events !== undefined) {
+    if (
+      !Array.isArray(events) ||
+      !events.every((e: unknown) => typeof e === "string")
+    ) {
+      return { error: "Campo 'events' deve ser uma lista de strings" };
+    }
+    if (events.length > 0) subscription.events = [...new Set<string>(events)];
+  }
+
+  if (types !== undefined) {
+    if (
+      !Array.isArray(types) ||
+      !types.every((t: unknown) => typeof t === "string")
+    ) {
+      return { error: "Campo 'types' deve ser uma lista de strings" };
+    }
+    if (types.length > 0) subscription.types = [...new Set<string>(types)];
+  }
+
+  return { subscription };
+}
+
+/**
+ * Monta uma assinatura a partir da query string da URL de upgrade
+ * Aceita ?sims=1,2&event=nome&types=simulator-update (event/events, type/types)
+ */
+export function parseSubscriptionQuery(
+  query: Record<string, string | string[] | undefined>
+): SubscriptionParseResult {
+  const sims = splitQueryValue(query.sims);
+  const parsedSims = sims.map((s) => Number(s));
+
+  if (parsedSims.some((s) => !Number.isInteger(s))) {
+    return { error: `Parâmetro 'sims' inválido: ${sims.join(",")}` };
+  }
+
+  return normalizeSubscription({
+    sims: parsedSims,
+    events: [...splitQueryValue(query.event), ...splitQueryValue(query.events)],
+    types: [...splitQueryValue(query.type), ...splitQueryValue(query.types)],
+  });
+}
+
+/**
+ * Verifica se uma mensagem com o escopo informado deve ser entregue
+ * Dimensões que a mensagem não possui (ex: simNum em "stats") não filtram
+ */
+export function matchesSubscription(
+  subscription: OutputSubscription | undefined,
+  scope: BroadcastScope
+): boolean {
+  if (!subscription) return true;
+
+  if (subscription.types && !subscription.types.includes(scope.type)) {
+    return false;
+  }
+
+  if (
+    subscription.sims &&
+    scope.simNum !== undefined &&
+    !subscription.sims.includes(scope.simNum)
+  ) {
+    return false;
+  }
+
+  if (
+    subscription.events &&
+    scope.event !== undefined &&
+    !subscription.events.includes(scope.event)
+  ) {
+    return false;
+  }
+
+  return true;
+}
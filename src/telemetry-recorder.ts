@@ -0,0 +1,369 @@
+import { createWriteStream, promises as fs } from "fs";
+import type { WriteStream } from "fs";
+import { join } from "path";
+import type {
+  RawSimulatorData,
+  RecordedUpdate,
+  RecordingSummary,
+} from "./types.js";
+import { logger } from "./logger.js";
+import { writeFileAtomic } from "./durable-file.js";
+
+/**
+ * Metadados gravados em data/recordings/<id>/session.json
+ * (partes e tamanho são lidos do diretório)
+ */
+type PersistedRecording = Omit<RecordingSummary, "status" | "bytes" | "files">;
+
+/**
+ * Gravação em andamento
+ */
+interface ActiveRecording {
+  meta: PersistedRecording;
+  dir: string;
+  files: string[];
+  stream: WriteStream;
+  fileBytes: number; // Bytes na parte atual
+  bytes: number; // Bytes em todas as partes
+  buffered: number; // Bytes aceitos e ainda não gravados no disco
+  dropping: boolean; // Descartando updates (buffer acima do limite)
+}
+
+/**
+ * Resultado do início de uma gravação
+ */
+export type RecordingStartResult =
+  | { recording: RecordingSummary; error?: undefined }
+  | { recording?: undefined; error: string };
+
+/**
+ * Arquivos de uma gravação para download
+ */
+export type RecordingFilesResult =
+  | { files: string[]; error?: undefined }
+  | { files?: undefined; error: string };
+
+const METADATA_FILE = "session.json";
+const RECORDING_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+const PART_FILE_PATTERN = /^part-\d{4}\.ndjson$/;
+// Bytes em memória aguardando o disco antes de descartar updates
+const MAX_BUFFERED_BYTES = 16 * 1024 * 1024;
+
+/**
+ * Nome da parte N de uma gravação (part-0001.ndjson, ...)
+ */
+function partFileName(index: number): string {
+  return `part-${String(index).padStart(4, "0")}.ndjson`;
+}
+
+/**
+ * Grava os `simulator-update` aceitos em arquivos NDJSON por sessão,
+ * abrindo uma nova parte quando a atual atinge `maxFileBytes`
+ * Uma gravação por vez
+ */
+export class TelemetryRecorder {
+  private dir: string;
+  private maxFileBytes: number;
+  private maxBufferedBytes: number;
+  private active?: ActiveRecording;
+  // Updates descartados desde o início do processo (todas as gravações)
+  private droppedTotal = 0;
+  // Início em andamento (antes de `active` existir)
+  private starting = false;
+  // Gravações de session.json em sequência (rotação e parada)
+  private metadataWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    dir: string,
+    maxFileBytes: number,
+    maxBufferedBytes = MAX_BUFFERED_BYTES
+  ) {
+    this.dir = dir;
+    this.maxFileBytes = maxFileBytes;
+    this.maxBufferedBytes = maxBufferedBytes;
+  }
+
+  /**
+   * Updates descartados com o disco sem acompanhar, em todas as gravações
+   */
+  get droppedUpdates(): number {
+    return this.droppedTotal;
+  }
+
+  /**
+   * Gravação em andamento (null se nenhuma)
+   */
+  get current(): RecordingSummary | null {
+    return this.active ? this.summarizeActive(this.active) : null;
+  }
+
+  /**
+   * Inicia uma gravação (opcionalmente apenas de alguns simuladores)
+   */
+  async start(options: {
+    name?: string;
+    simNums?: number[];
+  }): Promise<RecordingStartResult> {
+    if (this.active) {
+      return { error: `Gravação já em andamento: ${this.active.meta.id}` };
+    }
+    if (this.starting) return { error: "Gravação já em andamento" };
+
+    this.starting = true;
+    try {
+      return await this.open(options);
+    } finally {
+      this.starting = false;
+    }
+  }
+
+  private async open(options: {
+    name?: string;
+    simNums?: number[];
+  }): Promise<RecordingStartResult> {
+    const startedAt = new Date().toISOString();
+    const slug = (options.name ?? "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "");
+    const id = startedAt.replace(/[:.]/g, "-") + (slug ? `-${slug}` : "");
+    const dir = join(this.dir, id);
+
+    await fs.mkdir(dir, { recursive: true });
+
+    const meta: PersistedRecording = {
+      id,
+      name: options.name,
+      startedAt,
+      simNums: options.simNums,
+      messages: 0,
+    };
+    const recording: ActiveRecording = {
+      meta,
+      dir,
+      files: [],
+      stream: this.openPart(dir, 1),
+      fileBytes: 0,
+      bytes: 0,
+      buffered: 0,
+      dropping: false,
+    };
+    recording.files.push(partFileName(1));
+    this.active = recording;
+
+    await this.persist(recording);
+    logger.info(`⏺️ Gravação de telemetria iniciada: ${id}`, {
+      simNums: options.simNums,
+    });
+
+    return { recording: this.summarizeActive(recording) };
+  }
+
+  /**
+   * Acrescenta um update aceito à gravação em andamento (se houver)
+   * Se o disco não acompanhar, os updates esperam em memória; acima de
+   * `maxBufferedBytes` pendentes eles são descartados (e contados em `dropped`)
+   */
+  record(data: RawSimulatorData): void {
+    const recording = this.active;
+    if (!recording) return;
+    const { simNums } = recording.meta;
+    if (simNums && !simNums.includes(data.simNum)) return;
+
+    const line: RecordedUpdate = {
+      receivedAt: new Date().toISOString(),
+      simNum: data.simNum,
+      data,
+    };
+    const content = JSON.stringify(line) + "\n";
+    const size = Buffer.byteLength(content);
+
+    if (recording.buffered + size > this.maxBufferedBytes) {
+      recording.meta.dropped = (recording.meta.dropped ?? 0) + 1;
+      this.droppedTotal++;
+      if (!recording.dropping) {
+        recording.dropping = true;
+        logger.warn(
+          `Gravação ${recording.meta.id}: disco lento, descartando updates`
+        );
+      }
+      return;
+    }
+    recording.dropping = false;
+
+    if (
+      recording.fileBytes > 0 &&
+      recording.fileBytes + size > this.maxFileBytes
+    ) {
+      this.rotate(recording);
+    }
+
+    // O callback roda quando a linha chega ao disco (inclusive de uma parte
+    // já encerrada pela rotação)
+    recording.buffered += size;
+    recording.stream.write(content, () => {
+      recording.buffered -= size;
+    });
+    recording.fileBytes += size;
+    recording.bytes += size;
+    recording.meta.messages++;
+  }
+
+  /**
+   * Encerra a gravação em andamento
+   * Retorna null se nenhuma estava em andamento
+   */
+  async stop(): Promise<RecordingSummary | null> {
+    const recording = this.active;
+    if (!recording) return null;
+
+    this.active = undefined;
+    await new Promise<void>((resolve) => recording.stream.end(resolve));
+
+    recording.meta.stoppedAt = new Date().toISOString();
+    await this.persist(recording);
+
+    const summary: RecordingSummary = {
+      ...recording.meta,
+      status: "stopped",
+      bytes: recording.bytes,
+      files: recording.files,
+    };
+    logger.info(`⏹️ Gravação de telemetria encerrada: ${recording.meta.id}`, {
+      messages: summary.messages,
+      dropped: summary.dropped,
+      bytes: summary.bytes,
+      files: summary.files.length,
+    });
+
+    return summary;
+  }
+
+  /**
+   * Lista as gravações (mais recentes primeiro)
+   */
+  async list(): Promise<RecordingSummary[]> {
+    let ids: string[];
+    try {
+      ids = await fs.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const recordings: RecordingSummary[] = [];
+    for (const id of ids) {
+      const recording = await this.get(id);
+      if (recording) recordings.push(recording);
+    }
+
+    return recordings.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  /**
+   * Obtém uma gravação (null se não existir)
+   */
+  async get(id: string): Promise<RecordingSummary | null> {
+    if (!RECORDING_ID_PATTERN.test(id)) return null;
+    if (this.active?.meta.id === id) return this.summarizeActive(this.active);
+
+    const dir = join(this.dir, id);
+    let meta: PersistedRecording;
+    try {
+      meta = JSON.parse(await fs.readFile(join(dir, METADATA_FILE), "utf-8"));
+    } catch {
+      return null;
+    }
+
+    const files = await this.listParts(dir);
+    let bytes = 0;
+    for (const file of files) {
+      bytes += (await fs.stat(join(dir, file))).size;
+    }
+
+    return {
+      ...meta,
+      status: meta.stoppedAt ? "stopped" : "interrupted",
+      bytes,
+      files,
+    };
+  }
+
+  /**
+   * Caminhos das partes de uma gravação, em ordem
+   * `file` restringe a uma única parte
+   */
+  async resolveFiles(id: string, file?: string): Promise<RecordingFilesResult> {
+    const recording = await this.get(id);
+    if (!recording) return { error: `Gravação não encontrada: ${id}` };
+
+    if (file !== undefined) {
+      if (!PART_FILE_PATTERN.test(file) || !recording.files.includes(file)) {
+        return { error: `Parte não encontrada: ${file}` };
+      }
+      return { files: [join(this.dir, id, file)] };
+    }
+
+    return { files: recording.files.map((part) => join(this.dir, id, part)) };
+  }
+
+  private openPart(dir: string, index: number): WriteStream {
+    const stream = createWriteStream(join(dir, partFileName(index)), {
+      flags: "a",
+    });
+    stream.on("error", (error) => {
+      logger.error("Erro ao gravar telemetria; gravação interrompida", {
+        error: error.message,
+      });
+      if (this.active?.stream === stream) this.active = undefined;
+    });
+    return stream;
+  }
+
+  /**
+   * Fecha a parte atual e abre a próxima
+   */
+  private rotate(recording: ActiveRecording): void {
+    recording.stream.end();
+
+    const index = recording.files.length + 1;
+    recording.stream = this.openPart(recording.dir, index);
+    recording.files.push(partFileName(index));
+    recording.fileBytes = 0;
+
+    logger.info(
+      `Gravação ${recording.meta.id}: nova parte ${partFileName(index)}`
+    );
+    this.persist(recording);
+  }
+
+  private persist(recording: ActiveRecording): Promise<void> {
+    const content = JSON.stringify(recording.meta, null, 2);
+    const filepath = join(recording.dir, METADATA_FILE);
+
+    this.metadataWrite = this.metadataWrite
+      .then(() => writeFileAtomic(filepath, content))
+      .catch((error) => {
+        logger.error("Erro ao salvar metadados da gravação", {
+          id: recording.meta.id,
+          error: (error as Error).message,
+        });
+      });
+    return this.metadataWrite;
+  }
+
+  private async listParts(dir: string): Promise<string[]> {
+    return (await fs.readdir(dir))
+      .filter((file) => PART_FILE_PATTERN.test(file))
+      .sort();
+  }
+
+  private summarizeActive(recording: ActiveRecording): RecordingSummary {
+    return {
+      ...recording.meta,
+      status: "recording",
+      bytes: recording.bytes,
+      files: [...recording.files],
+    };
+  }
+}
@@ -1,4 +1,6 @@
 import type { WebSocket } from "ws";
+import type { DeltaEncoder } from "./delta.js";
+import type { UpdateThrottle } from "./update-throttle.js";
 
 /**
  * Estrutura de dados de uma volta
@@ -13,7 +15,7 @@ export interface LapDataStructure {
  * Dados brutos recebidos do simulador (via /input)
  */
 export interface RawSimulatorData {
-  simNum: number; // ID do simulador (1, 2 ou 3)
+  simNum: number; // ID do simulador (ver roster configurado)
   "pilot-name": string;
   car: string;
   track: string;
@@ -36,6 +38,246 @@ export interface RawSimulatorData {
   carData?: Record<string, any>;
 }
 
+/**
+ * Setor completado por um piloto (mensagem "sector-complete")
+ * personalBest = melhor setor do piloto no evento (verde)
+ * overallBest = melhor setor do evento (roxo)
+ */
+export interface SectorCompletion {
+  simNum: number;
+  pilotName: string;
+  event: string;
+  lap: number;
+  sectorIndex: number; // Base 0
+  sectorTime: number; // ms
+  isValid: boolean;
+  personalBest: boolean;
+  overallBest: boolean;
+  personalBestTime?: number; // Melhor setor do piloto após este
+  overallBestTime?: number; // Melhor setor do evento após este
+  theoreticalBest?: number; // Soma dos melhores setores do piloto
+}
+
+/**
+ * Linha do leaderboard ranqueado
+ */
+export interface LeaderboardEntry {
+  position: number;
+  pilotName: string;
+  bestLapTime: number; // ms
+  gapToLeader: number; // ms (0 para o líder)
+  gapToAhead: number; // ms para o piloto imediatamente à frente (0 para o líder)
+  lapCount: number; // Voltas completadas no histórico
+  car: string;
+  track: string;
+  simNum: number;
+  timestamp: string; // Quando a melhor volta foi registrada
+  isValid?: boolean; // false = volta inválida contada por configuração do evento
+}
+
+/**
+ * Ciclo de vida de um evento
+ * - open: aceita voltas
+ * - closed: encerrado, não aceita novas voltas
+ * - archived: arquivado (somente leitura)
+ */
+export type EventStatus = "open" | "closed" | "archived";
+
+/**
+ * Metadados informados na criação de um evento
+ */
+export interface EventMetadata {
+  displayName?: string;
+  track?: string; // Se definido, só aceita voltas nesta pista
+  allowedCars?: string[]; // Se definido, só aceita voltas com estes carros
+  startDate?: string; // ISO 8601
+  endDate?: string; // ISO 8601
+}
+
+/**
+ * Resumo de um evento (sem registros e histórico)
+ */
+export interface EventSummary {
+  eventName: string;
+  status: EventStatus;
+  active: boolean;
+  metadata: EventMetadata;
+  createdAt: string;
+  lastUpdated: string;
+  closedAt?: string;
+  archivedAt?: string;
+  records: number; // Registros de melhor volta (piloto + pista + carro)
+}
+
+/**
+ * Troca agendada do evento ativo (global ou de um simulador)
+ */
+export interface ScheduledEventSwitch {
+  id: string;
+  event: string | null; // null = remove o evento ativo/atribuído
+  at: string; // ISO 8601
+  simNum?: number; // Ausente = evento ativo global
+}
+
+/**
+ * Eventos aplicados a dados recebidos sem "event"
+ */
+export interface ActiveEventState {
+  global: string | null; // Evento ativo (POST /events/:event/activate)
+  simulators: Record<number, string>; // Atribuições por simulador (têm prioridade)
+  schedule: ScheduledEventSwitch[];
+}
+
+/**
+ * Edição manual de registros de pilotos
+ */
+export type RecordEditAction =
+  | "delete-pilot"
+  | "rename-pilot"
+  | "override-best-lap";
+
+/**
+ * Quem fez uma edição (token mascarado e nome informado, se houver)
+ */
+export interface AuditActor {
+  role: AuthRole | "anonymous"; // anonymous = autenticação desabilitada
+  token?: string; // Apenas os últimos caracteres
+  author?: string;
+  remoteAddress?: string;
+}
+
+/**
+ * Entrada do log de auditoria (append-only)
+ */
+export interface AuditEntry {
+  timestamp: string;
+  actor: AuditActor;
+  action: RecordEditAction;
+  event: string;
+  pilot: string;
+  reason?: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Estado de uma gravação de telemetria
+ * - interrupted: o servidor parou sem encerrar a gravação (crash)
+ */
+export type RecordingStatus = "recording" | "stopped" | "interrupted";
+
+/**
+ * Sessão de gravação de telemetria (data/recordings/<id>/)
+ */
+export interface RecordingSummary {
+  id: string;
+  name?: string;
+  status: RecordingStatus;
+  startedAt: string;
+  stoppedAt?: string;
+  simNums?: number[]; // Ausente = todos os simuladores
+  messages: number;
+  dropped?: number; // Updates descartados com o disco sem acompanhar
+  bytes: number;
+  files: string[]; // Partes em ordem (part-0001.ndjson, ...)
+}
+
+/**
+ * Linha de um arquivo de gravação
+ */
+export interface RecordedUpdate {
+  receivedAt: string; // Momento em que o servidor aceitou o update
+  simNum: number;
+  data: RawSimulatorData;
+}
+
+/**
+ * Estado de um replay
+ * - finished: a gravação chegou ao fim
+ * - stopped: interrompido via POST /replay/stop
+ */
+export type ReplayStatus = "playing" | "paused" | "finished" | "stopped";
+
+/**
+ * Replay de uma gravação para os clientes OUTPUT
+ */
+export interface ReplayState {
+  recording: string; // id da gravação
+  status: ReplayStatus;
+  speed: number; // 0.5 a 10
+  position: number; // ms desde o início da gravação
+  muteLive: boolean; // Telemetria ao vivo não é enviada durante o replay
+  messages: number; // Updates reenviados
+  startedAt: string;
+}
+
+/**
+ * Marca dos updates reenviados por um replay (para exibir o selo "REPLAY")
+ */
+export interface ReplayTag {
+  recording: string;
+  receivedAt: string; // Horário original do update
+  speed: number;
+}
+
+/**
+ * Resultado final de um evento (exportação)
+ * Posições e gaps são calculados dentro de cada combinação pista + carro
+ */
+export interface EventResults {
+  event: EventSummary;
+  entries: LeaderboardEntry[]; // Ordenadas por pista, carro e posição
+}
+
+/**
+ * Combinação pista + carro com tempos registrados em um evento
+ */
+export interface LeaderboardCombination {
+  track: string;
+  car: string;
+  entries: number; // Pilotos com tempo nesta combinação
+  bestLapTime: number;
+  leader: string;
+}
+
+/**
+ * Mudança no ranking de um evento após um novo melhor tempo
+ * O ranking é o da combinação pista + carro do registro alterado
+ */
+export interface LeaderboardChange {
+  event: string;
+  pilotName: string;
+  car: string;
+  track: string;
+  bestLapTime: number;
+  previousBestLapTime?: number;
+  oldPosition: number | null; // null = primeiro tempo do piloto na combinação
+  newPosition: number;
+  leaderboard: LeaderboardEntry[]; // Ranking da combinação após a mudança
+}
+
+/**
+ * Filtros e paginação do leaderboard
+ */
+export interface LeaderboardQuery {
+  car?: string;
+  track?: string;
+  simNum?: number;
+  offset?: number;
+  limit?: number;
+}
+
+/**
+ * Leaderboard ranqueado de um evento
+ */
+export interface Leaderboard {
+  eventName: string;
+  total: number; // Pilotos após os filtros, antes da paginação
+  offset: number;
+  limit: number;
+  entries: LeaderboardEntry[];
+}
+
 /**
  * Mensagem recebida no endpoint /input
  */
@@ -51,6 +293,57 @@ export interface OutputMessage {
   type: "simulator-update";
   data: RawSimulatorData;
   timestamp: string; // ISO 8601
+  seq?: number; // Sequência por simulador (apenas no modo delta, keyframe)
+  replay?: ReplayTag; // Presente em updates vindos de um replay
+}
+
+/**
+ * Mensagem delta enviada a clientes /output no modo "delta"
+ * `changes` contém apenas os campos alterados (objetos aninhados parcialmente),
+ * `removed` lista caminhos (ex: "carData.abs") que deixaram de existir
+ */
+export interface DeltaOutputMessage {
+  type: "simulator-delta";
+  simNum: number;
+  seq: number;
+  changes: Record<string, any>;
+  removed?: string[];
+  timestamp: string; // ISO 8601
+  replay?: ReplayTag;
+}
+
+/**
+ * Filtro de assinatura de um cliente /output
+ * Listas ausentes ou vazias significam "todos"
+ */
+export interface OutputSubscription {
+  sims?: number[]; // simNums de interesse
+  events?: string[]; // Nomes de eventos de interesse
+  types?: string[]; // Tipos de mensagem de interesse (ex: "simulator-update")
+}
+
+/**
+ * Mensagem de assinatura recebida no endpoint /output
+ */
+export interface SubscribeMessage extends OutputSubscription {
+  type: "subscribe";
+}
+
+/**
+ * Opções de entrega de um cliente /output
+ */
+export interface OutputOptions {
+  mode: "full" | "delta"; // full = RawSimulatorData completo a cada update
+  maxRate?: number; // Máximo de updates por segundo por simulador (ausente = sem limite)
+}
+
+/**
+ * Escopo de uma mensagem distribuída, usado para aplicar as assinaturas
+ */
+export interface BroadcastScope {
+  type: string;
+  simNum?: number;
+  event?: string;
 }
 
 /**
@@ -63,6 +356,68 @@ export interface Client {
   connectedAt: Date;
   simulatorId?: number; // Para clientes input, qual simulador eles representam
   lastActivity?: Date;
+  subscription?: OutputSubscription; // Para clientes output, filtro de mensagens
+  outputOptions?: OutputOptions; // Para clientes output, modo de entrega
+  deltaEncoder?: DeltaEncoder; // Estado do modo delta (se ativo)
+  updateThrottle?: UpdateThrottle; // Coalescência de updates (se maxRate definido)
+  skippedFrames?: number; // Frames de telemetria descartados por backpressure
+  role?: AuthRole; // Papel do token usado na conexão (se autenticação ativa)
+  lastPingAt?: Date; // Último ping de heartbeat enviado
+  lastPongAt?: Date; // Último pong recebido
+  latencyMs?: number; // Round-trip do último ping/pong
+}
+
+/**
+ * Informações públicas de um cliente (GET /clients)
+ */
+export interface ClientInfo {
+  id: string;
+  type: "input" | "output";
+  role?: AuthRole;
+  simulatorId?: number;
+  connectedAt: string; // ISO 8601
+  lastActivity?: string; // ISO 8601
+  lastPongAt?: string; // ISO 8601
+  latencyMs?: number;
+  subscription?: OutputSubscription;
+  outputOptions?: OutputOptions;
+  skippedFrames?: number;
+  bufferedAmount: number;
+}
+
+/**
+ * Último estado conhecido de um simulador
+ */
+export interface SimulatorState {
+  simNum: number;
+  data: RawSimulatorData;
+  receivedAt: string; // ISO 8601
+}
+
+/**
+ * Simulador cadastrado no roster
+ */
+export interface RosterEntry {
+  simNum: number;
+  label: string; // Nome exibido (ex: "Rig A")
+  car?: string; // Carro fixo do rig (opcional)
+  track?: string; // Pista fixa do rig (opcional)
+}
+
+/**
+ * Estado de presença de um simulador
+ */
+export type PresenceStatus = "connected" | "streaming" | "stale" | "disconnected";
+
+/**
+ * Presença de um simulador (em /stats e mensagens "simulator-status")
+ */
+export interface SimulatorPresence {
+  simNum: number;
+  status: PresenceStatus;
+  connections: number; // Conexões INPUT associadas
+  lastDataAt?: string; // ISO 8601
+  since: string; // ISO 8601 - início do estado atual
 }
 
 /**
@@ -74,8 +429,38 @@ export interface ServerStats {
   totalMessages: number;
   uptime: number; // segundos
   activeSimulators: number[];
+  roster: RosterEntry[];
+  simulators: SimulatorPresence[];
+  backpressure: {
+    skippedFrames: number; // Frames descartados (buffer acima do limite suave)
+    evictedClients: number; // Clientes desconectados (buffer acima do limite rígido)
+  };
 }
 
+/**
+ * Papel de um token de API
+ * - simulator: envia dados via /input e POST /api/input
+ * - display: recebe dados via /output e consulta rotas de leitura
+ * - admin: acesso total (reload, edição de eventos, etc.)
+ */
+export type AuthRole = "simulator" | "display" | "admin";
+
+/**
+ * Token de API configurado
+ */
+export interface ApiToken {
+  token: string;
+  role: AuthRole;
+  simNum?: number; // Para tokens simulator, restringe a um único simulador
+}
+
+/**
+ * Backend de armazenamento dos eventos
+ * - json: um arquivo data/<evento>.json por evento
+ * - sqlite: banco embutido (histórico de voltas em linhas separadas)
+ */
+export type StorageBackend = "json" | "sqlite";
+
 /**
  * Configuração do servidor
  */
@@ -85,6 +470,22 @@ export interface ServerConfig {
   logLevel: "debug" | "info" | "warn" | "error";
   maxReconnectAttempts: number;
   reconnectInterval: number;
+  simulatorStateTtl: number; // ms sem dados até o estado do simulador expirar
+  apiTokens: ApiToken[]; // Vazio = autenticação desabilitada
+  roster: RosterEntry[]; // Simuladores aceitos em /input
+  inputValidationMode: "reject" | "coerce" | "strip"; // Tratamento de campos inválidos
+  deltaKeyframeInterval: number; // ms entre keyframes completos no modo delta
+  outputBufferSoftLimit: number; // bytes pendentes acima dos quais telemetria é descartada
+  outputBufferHardLimit: number; // bytes pendentes acima dos quais o cliente é desconectado
+  heartbeatInterval: number; // ms entre pings de heartbeat
+  heartbeatTimeout: number; // ms sem pong até o socket ser encerrado
+  presenceStaleAfter: number; // ms sem dados até um simulador ser considerado "stale"
+  leaderboardTopN: number; // Posições enviadas em cada "leaderboard-update"
+  requireEventCreation: boolean; // Voltas de eventos não criados via API são ignoradas
+  storageBackend: StorageBackend; // Onde os eventos são persistidos
+  sqlitePath?: string; // Arquivo do banco (padrão data/events.sqlite)
+  recordingMaxFileBytes: number; // Tamanho máximo de cada parte de uma gravação
+  recordingAutostart: boolean; // Inicia uma gravação junto com o servidor
 }
 
 /**
@@ -0,0 +1,76 @@
+import type { RawSimulatorData, ReplayTag } from "./types.js";
+
+/**
+ * Estado de coalescência de um simulador
+ */
+interface SimulatorSlot {
+  lastSentAt: number;
+  pending?: { data: RawSimulatorData; replay?: ReplayTag };
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Limita a taxa de updates de telemetria por simulador para um cliente
+ * Updates que chegam antes do intervalo são coalescidos: apenas o mais
+ * recente é enviado quando o intervalo termina
+ */
+export class UpdateThrottle {
+  private slots: Map<number, SimulatorSlot> = new Map();
+  private interval: number;
+  private flush: (data: RawSimulatorData, replay?: ReplayTag) => void;
+
+  constructor(
+    maxRate: number,
+    flush: (data: RawSimulatorData, replay?: ReplayTag) => void
+  ) {
+    this.interval = 1000 / maxRate;
+    this.flush = flush;
+  }
+
+  /**
+   * Oferece um update; retorna true se ele deve ser enviado imediatamente
+   * Caso contrário, ele substitui o pendente e será enviado por `flush`
+   */
+  offer(data: RawSimulatorData, replay?: ReplayTag): boolean {
+    const now = Date.now();
+    const slot = this.slots.get(data.simNum);
+
+    if (!slot) {
+      this.slots.set(data.simNum, { lastSentAt: now });
+      return true;
+    }
+
+    const elapsed = now - slot.lastSentAt;
+
+    if (elapsed >= this.interval && !slot.timer) {
+      slot.lastSentAt = now;
+      return true;
+    }
+
+    slot.pending = { data, replay };
+
+    if (!slot.timer) {
+      slot.timer = setTimeout(() => {
+        slot.timer = undefined;
+        const pending = slot.pending;
+        slot.pending = undefined;
+        if (pending) {
+          slot.lastSentAt = Date.now();
+          this.flush(pending.data, pending.replay);
+        }
+      }, this.interval - elapsed);
+    }
+
+    return false;
+  }
+
+  /**
+   * Cancela envios pendentes
+   */
+  dispose(): void {
+    for (const slot of this.slots.values()) {
+      if (slot.timer) clearTimeout(slot.timer);
+    }
+    this.slots.clear();
+  }
+}
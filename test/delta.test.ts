@@ -0,0 +1,96 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DeltaEncoder, diffObjects } from "../src/delta.js";
+import type { DeltaOutputMessage, RawSimulatorData } from "../src/types.js";
+
+const NOW = "2025-11-24T12:34:56.789Z";
+
+const frame = (changes: Record<string, unknown> = {}): RawSimulatorData =>
+  ({
+    simNum: 1,
+    "pilot-name": "João Silva",
+    car: "Porsche 911 GT3",
+    track: "Interlagos",
+    lapData: { lapTime: 85234, sectorTimes: [28000], isValid: true },
+    speedNow: 180,
+    gear: 4,
+    ...changes,
+  }) as RawSimulatorData;
+
+test("diffObjects compara objetos aninhados e substitui listas inteiras", () => {
+  const removed: string[] = [];
+  const changes = diffObjects(
+    { a: 1, nested: { x: 1, y: 2 }, list: [1, 2], gone: true },
+    { a: 1, nested: { x: 1, y: 3 }, list: [1, 2, 3] },
+    removed
+  );
+  assert.deepEqual(changes, { nested: { y: 3 }, list: [1, 2, 3] });
+  assert.deepEqual(removed, ["gone"]);
+});
+
+test("diffObjects retorna undefined sem mudanças", () => {
+  assert.equal(diffObjects({ list: [1, 2] }, { list: [1, 2] }), undefined);
+});
+
+test("envia keyframe e depois apenas os campos alterados", () => {
+  const encoder = new DeltaEncoder(60_000);
+
+  const keyframe = encoder.encode(frame(), NOW);
+  assert.equal(keyframe?.type, "simulator-update");
+  assert.equal(keyframe?.seq, 1);
+
+  const delta = encoder.encode(
+    frame({
+      speedNow: 190,
+      lapData: { lapTime: 85234, sectorTimes: [28000, 29000], isValid: true },
+    }),
+    NOW
+  );
+  assert.deepEqual(delta, {
+    type: "simulator-delta",
+    simNum: 1,
+    seq: 2,
+    changes: { speedNow: 190, lapData: { sectorTimes: [28000, 29000] } },
+    timestamp: NOW,
+  });
+});
+
+test("não envia nada quando o frame não mudou", () => {
+  const encoder = new DeltaEncoder(60_000);
+  encoder.encode(frame(), NOW);
+  assert.equal(encoder.encode(frame(), NOW), null);
+});
+
+test("informa campos removidos", () => {
+  const encoder = new DeltaEncoder(60_000);
+  encoder.encode(frame(), NOW);
+
+  const { gear: _gear, ...withoutGear } = frame();
+  const delta = encoder.encode(withoutGear as RawSimulatorData, NOW);
+  assert.equal(delta?.type, "simulator-delta");
+  assert.deepEqual((delta as DeltaOutputMessage).removed, ["gear"]);
+});
+
+test("sequência é por simulador", () => {
+  const encoder = new DeltaEncoder(60_000);
+  encoder.encode(frame(), NOW);
+  encoder.encode(frame({ speedNow: 1 }), NOW);
+  assert.equal(encoder.encode(frame({ simNum: 2 }), NOW)?.seq, 1);
+});
+
+test("reset força keyframe mantendo a sequência", () => {
+  const encoder = new DeltaEncoder(60_000);
+  encoder.encode(frame(), NOW);
+  encoder.reset(1);
+
+  const keyframe = encoder.encode(frame(), NOW);
+  assert.equal(keyframe?.type, "simulator-update");
+  assert.equal(keyframe?.seq, 2);
+});
+
+test("keyframes periódicos conforme o intervalo", () => {
+  const encoder = new DeltaEncoder(0);
+  encoder.encode(frame(), NOW);
+  const next = encoder.encode(frame({ speedNow: 1 }), NOW);
+  assert.equal(next?.type, "simulator-update");
+});
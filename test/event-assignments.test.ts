@@ -0,0 +1,105 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { startTestServer, useTempDataDir } from "./helpers.js";
+import type { ActiveEventState } from "../src/types.js";
+import type { TestServer } from "./helpers.js";
+
+// "state" como arquivo: a gravação das atribuições do servidor sempre falha
+const dataDir = await useTempDataDir("event-assignments");
+await writeFile(join(dataDir, "state"), "");
+
+const { EventAssignments } = await import("../src/event-assignments.js");
+
+const FUTURE = new Date(Date.now() + 3_600_000).toISOString();
+
+let server: TestServer;
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+/**
+ * Atribuições gravadas em `dir`; `breakDisk` troca o diretório por um
+ * arquivo para as gravações seguintes falharem
+ */
+async function createAssignments(name: string) {
+  const dir = join(dataDir, name);
+  const assignments = new EventAssignments(join(dir, "assign.json"), () => {});
+  const breakDisk = async () => {
+    await rm(dir, { recursive: true, force: true });
+    await writeFile(dir, "");
+  };
+  return { assignments, breakDisk };
+}
+
+test("atribuição de simulador rejeita e é desfeita se a gravação falhar", async () => {
+  const { assignments, breakDisk } = await createAssignments("assign");
+  await assignments.setForSimulator(1, "etapa-1");
+  await breakDisk();
+
+  await assert.rejects(assignments.setForSimulator(1, "etapa-2"));
+  await assert.rejects(assignments.setForSimulator(2, "etapa-2"));
+  assert.deepEqual(assignments.getState().simulators, { 1: "etapa-1" });
+});
+
+test("agendamento rejeita e é descartado se a gravação falhar", async () => {
+  const { assignments, breakDisk } = await createAssignments("add");
+  await breakDisk();
+
+  await assert.rejects(
+    assignments.addSchedule({ event: "etapa-1", at: FUTURE })
+  );
+  assert.deepEqual(assignments.getState().schedule, []);
+});
+
+test("remoção de agendamento rejeita e o mantém se a gravação falhar", async () => {
+  const { assignments, breakDisk } = await createAssignments("remove");
+  const entry = await assignments.addSchedule({ event: "etapa-1", at: FUTURE });
+  await breakDisk();
+
+  await assert.rejects(assignments.removeSchedule(entry.id));
+  assert.deepEqual(assignments.getState().schedule, [entry]);
+});
+
+test("uma gravação que falha não bloqueia as seguintes", async () => {
+  const dir = join(dataDir, "recover");
+  const assignments = new EventAssignments(join(dir, "assign.json"), () => {});
+  await writeFile(dir, "");
+  await assert.rejects(assignments.setForSimulator(1, "etapa-1"));
+
+  await rm(dir);
+  await assignments.setForSimulator(1, "etapa-2");
+  assert.deepEqual(assignments.getState().simulators, { 1: "etapa-2" });
+});
+
+test("PUT /active-event/sims/:simNum responde 500 se a gravação falhar", async () => {
+  const res = await server.request("PUT", "/active-event/sims/1", {
+    event: "etapa-1",
+  });
+  assert.equal(res.status, 500);
+
+  const state = (await (
+    await server.request("GET", "/active-event")
+  ).json()) as ActiveEventState;
+  assert.deepEqual(state.simulators, {});
+});
+
+test("POST /active-event/schedule responde 500 se a gravação falhar", async () => {
+  const res = await server.request("POST", "/active-event/schedule", {
+    event: "etapa-1",
+    at: FUTURE,
+  });
+  assert.equal(res.status, 500);
+
+  const state = (await (
+    await server.request("GET", "/active-event")
+  ).json()) as ActiveEventState;
+  assert.deepEqual(state.schedule, []);
+});
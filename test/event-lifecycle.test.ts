@@ -0,0 +1,62 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { rm } from "fs/promises";
+import { startTestServer, useTempDataDir } from "./helpers.js";
+import type { TestServer } from "./helpers.js";
+import type { ActiveEventState } from "../src/types.js";
+
+const dataDir = await useTempDataDir("event-lifecycle");
+
+let server: TestServer;
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+  const { flushPendingWrites } = await import("../src/best-lap-tracker.js");
+  await flushPendingWrites();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+async function getActiveEventState(): Promise<ActiveEventState> {
+  const res = await server.request("GET", "/active-event");
+  return (await res.json()) as ActiveEventState;
+}
+
+test("ativar um evento atualiza o evento ativo global antes da resposta", async () => {
+  const created = await server.request("POST", "/events/etapa-1", {
+    displayName: "Etapa 1",
+  });
+  assert.equal(created.status, 201);
+
+  const activated = await server.request("POST", "/events/etapa-1/activate");
+  assert.equal(activated.status, 200);
+  assert.equal((await getActiveEventState()).global, "etapa-1");
+
+  const closed = await server.request("POST", "/events/etapa-1/close");
+  assert.equal(closed.status, 200);
+  assert.equal((await getActiveEventState()).global, null);
+});
+
+test("falha ao atualizar o evento ativo global é registrada sem derrubar o servidor", async () => {
+  const target = server.server as unknown as {
+    refreshGlobalEvent(): Promise<void>;
+  };
+  const original = target.refreshGlobalEvent;
+  target.refreshGlobalEvent = async () => {
+    throw new Error("falha simulada");
+  };
+
+  try {
+    const res = await server.request("POST", "/events/etapa-2", {});
+    assert.equal(res.status, 201);
+  } finally {
+    target.refreshGlobalEvent = original;
+  }
+
+  const res = await server.request("POST", "/events/etapa-2/activate");
+  assert.equal(res.status, 200);
+  assert.equal((await getActiveEventState()).global, "etapa-2");
+});
@@ -0,0 +1,44 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { JsonEventStorage } from "../src/event-storage.js";
+import type { StoredEvent } from "../src/event-storage.js";
+
+const dir = await mkdtemp(join(tmpdir(), "event-storage-"));
+const storage = new JsonEventStorage<StoredEvent>(dir);
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+test("arquivo inexistente é missing", async () => {
+  assert.deepEqual(await storage.load("ausente"), { status: "missing" });
+});
+
+test("evento gravado é lido de volta", async () => {
+  await storage.save("etapa-1", { eventName: "etapa-1" });
+  assert.deepEqual(await storage.load("etapa-1"), {
+    status: "ok",
+    data: { eventName: "etapa-1" },
+  });
+});
+
+test("JSON inválido ou que não é objeto é corrompido", async () => {
+  for (const [key, content] of [
+    ["truncado", '{"eventName": "trunc'],
+    ["nulo", "null"],
+    ["lista", "[]"],
+    ["numero", "42"],
+  ]) {
+    await writeFile(join(dir, `${key}.json`), content);
+    const result = await storage.load(key);
+    assert.equal(result.status, "corrupt", key);
+  }
+});
+
+test("outros erros de leitura são relançados", async () => {
+  await mkdir(join(dir, "diretorio.json"));
+  await assert.rejects(storage.load("diretorio"), { code: "EISDIR" });
+});
@@ -0,0 +1,69 @@
+import { mkdtemp } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import type { WebSocketSimulatorServer } from "../src/server.js";
+import type { ServerConfig } from "../src/types.js";
+
+/**
+ * Cria um diretório de dados temporário e o define como DATA_DIR
+ * Deve ser chamado antes de importar o rastreador ou o servidor
+ */
+export async function useTempDataDir(prefix: string): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), `${prefix}-`));
+  process.env.DATA_DIR = dir;
+  process.env.LOG_LEVEL ??= "error";
+  return dir;
+}
+
+/**
+ * Servidor HTTP de teste em uma porta livre (sem heartbeat, watcher ou
+ * agendamentos, que são iniciados por start())
+ */
+export interface TestServer {
+  server: WebSocketSimulatorServer;
+  url: string;
+  request(method: string, path: string, body?: unknown): Promise<Response>;
+  close(): Promise<void>;
+}
+
+export async function startTestServer(
+  overrides: Partial<ServerConfig> = {}
+): Promise<TestServer> {
+  const { WebSocketSimulatorServer } = await import("../src/server.js");
+  const { loadConfig } = await import("../src/config.js");
+
+  const server = new WebSocketSimulatorServer({
+    ...loadConfig(),
+    host: "127.0.0.1",
+    port: 0,
+    ...overrides,
+  });
+  const httpServer = (server as unknown as { httpServer: Server }).httpServer;
+  await new Promise<void>((resolve) =>
+    httpServer.listen(0, "127.0.0.1", resolve)
+  );
+  const { port } = httpServer.address() as AddressInfo;
+  const url = `http://127.0.0.1:${port}`;
+
+  return {
+    server,
+    url,
+    request: (method, path, body) =>
+      fetch(url + path, {
+        method,
+        ...(body !== undefined
+          ? {
+              headers: { "Content-Type": "application/json" },
+              body: typeof body === "string" ? body : JSON.stringify(body),
+            }
+          : {}),
+      }),
+    close: () =>
+      new Promise<void>((resolve) => {
+        httpServer.closeAllConnections();
+        httpServer.close(() => resolve());
+      }),
+  };
+}
@@ -0,0 +1,86 @@
+import { after, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { rm } from "fs/promises";
+import { useTempDataDir } from "./helpers.js";
+import type { RawSimulatorData } from "../src/types.js";
+
+const dataDir = await useTempDataDir("invalid-laps");
+
+const {
+  processBestLap,
+  updateEventSettings,
+  getEventData,
+  getPendingWriteCount,
+  flushPendingWrites,
+} = await import("../src/best-lap-tracker.js");
+
+const TRACK = "Interlagos";
+
+// Relógio e debounce controlados pelo teste
+mock.timers.enable({ apis: ["Date", "setTimeout"], now: Date.now() });
+
+after(async () => {
+  mock.timers.reset();
+  await flushPendingWrites();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+// Usa o alias bestTime, que não passa pelo throttling do mesmo bestLap
+const frame = (
+  event: string,
+  bestTime: number,
+  isValid: boolean,
+  car = "Porsche 911 GT3"
+): RawSimulatorData =>
+  ({
+    simNum: 1,
+    "pilot-name": "Ana",
+    car,
+    track: TRACK,
+    event,
+    bestTime,
+    lapData: { lapTime: bestTime, sectorTimes: [] as number[], isValid },
+  }) as RawSimulatorData;
+
+test("a mesma volta inválida repetida não adia a gravação do evento", async () => {
+  const event = "invalid-repeat";
+  for (let second = 0; second < 10; second++) {
+    assert.equal(await processBestLap(frame(event, 90000, false)), null);
+    mock.timers.tick(1000);
+  }
+
+  assert.equal(getPendingWriteCount(), 0);
+  const data = await getEventData(event);
+  assert.equal(data?.invalidLaps?.Ana?.length, 1);
+  assert.deepEqual(data?.pilots, {});
+});
+
+test("volta inválida só descarta o mesmo tempo no mesmo carro e pista", async () => {
+  const event = "invalid-combination";
+  await processBestLap(frame(event, 90000, false, "Carro A"));
+  await processBestLap(frame(event, 90000, false, "Carro B"));
+
+  const result = await processBestLap(frame(event, 90000, true, "Carro C"));
+  assert.equal(result?.bestLapTime, 90000);
+
+  const data = await getEventData(event);
+  assert.deepEqual(
+    data?.invalidLaps?.Ana?.map((lap) => lap.car),
+    ["Carro A", "Carro B"]
+  );
+  assert.equal(data?.pilots[`Ana|${TRACK}|Carro C`]?.isValid, undefined);
+});
+
+test("com countInvalidLaps a volta inválida entra no ranking marcada", async () => {
+  const event = "invalid-counted";
+  await updateEventSettings(event, { countInvalidLaps: true });
+
+  const result = await processBestLap(frame(event, 91000, false));
+  assert.equal(result?.bestLapTime, 91000);
+
+  const record = (await getEventData(event))?.pilots[
+    `Ana|${TRACK}|Porsche 911 GT3`
+  ];
+  assert.equal(record?.isValid, false);
+  assert.equal((await getEventData(event))?.invalidLaps?.Ana, undefined);
+});
@@ -0,0 +1,162 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, readFile, rm, appendFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { EventJournal } from "../src/journal.js";
+import type { JournalEntry } from "../src/journal.js";
+import { writeFileAtomic } from "../src/durable-file.js";
+import type { RawSimulatorData } from "../src/types.js";
+
+// O rastreador lê DATA_DIR ao ser importado: dados do teste em um temporário
+const dataDir = await mkdtemp(join(tmpdir(), "journal-"));
+process.env.DATA_DIR = dataDir;
+process.env.LOG_LEVEL ??= "error";
+
+const {
+  processBestLap,
+  getEventData,
+  replayJournals,
+  invalidateCache,
+  reloadEventData,
+  flushPendingWrites,
+} = await import("../src/best-lap-tracker.js");
+
+const TRACK = "Interlagos";
+const CAR = "Porsche 911 GT3";
+
+const entry = (
+  event: string,
+  seq: number,
+  pilotName: string,
+  bestLapTime: number
+): JournalEntry => ({
+  seq,
+  event,
+  op: "set-record",
+  key: `${pilotName}|${TRACK}|${CAR}`,
+  record: {
+    pilotName,
+    bestLapTime,
+    car: CAR,
+    track: TRACK,
+    timestamp: new Date().toISOString(),
+    simNum: 1,
+  },
+  at: new Date().toISOString(),
+});
+
+after(async () => {
+  await flushPendingWrites();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+test("compactação descarta entradas já gravadas no evento", async () => {
+  const dir = join(dataDir, "unit-journal");
+  const journal = new EventJournal(dir);
+  for (const seq of [1, 2, 3]) {
+    await journal.append("etapa", entry("etapa", seq, "Ana", 90000 - seq));
+  }
+
+  await journal.compact("etapa", 2);
+  const pending = await journal.readAll();
+  assert.deepEqual(pending.get("etapa")?.map((e) => e.seq), [3]);
+
+  await journal.compact("etapa", 3);
+  assert.equal((await journal.readAll()).size, 0);
+  assert.deepEqual(await readdir(dir), []);
+});
+
+test("linha incompleta no fim do journal é ignorada", async () => {
+  const dir = join(dataDir, "torn-journal");
+  const journal = new EventJournal(dir);
+  await journal.append("etapa", entry("etapa", 1, "Ana", 90000));
+  await appendFile(join(dir, "etapa.ndjson"), '{"seq":2,"event":"eta');
+
+  const pending = await journal.readAll();
+  assert.deepEqual(pending.get("etapa")?.map((e) => e.seq), [1]);
+});
+
+test("gravações atômicas concorrentes não deixam temporários", async () => {
+  const dir = join(dataDir, "atomic");
+  const filepath = join(dir, "evento.json");
+  const contents = Array.from({ length: 10 }, (_, i) => `{"n":${i}}`);
+
+  await Promise.all(
+    contents.map((content) => writeFileAtomic(filepath, content))
+  );
+
+  assert.ok(contents.includes(await readFile(filepath, "utf-8")));
+  assert.deepEqual(await readdir(dir), ["evento.json"]);
+});
+
+test("replay aplica só as entradas posteriores ao arquivo do evento", async () => {
+  const event = "replay-crash";
+  await processBestLap({
+    simNum: 1,
+    "pilot-name": "Ana",
+    car: CAR,
+    track: TRACK,
+    event,
+    bestLap: 90000,
+  } as RawSimulatorData);
+  await flushPendingWrites();
+  assert.equal((await getEventData(event))?.journalSeq, 1);
+
+  // Crash depois do journal e antes do arquivo do evento
+  const journal = new EventJournal(join(dataDir, "journal"));
+  await journal.append(event, entry(event, 1, "Ana", 95000));
+  await journal.append(event, entry(event, 2, "Bia", 91000));
+  invalidateCache();
+
+  await replayJournals();
+
+  const eventData = await getEventData(event);
+  assert.equal(eventData?.pilots[`Ana|${TRACK}|${CAR}`].bestLapTime, 90000);
+  assert.equal(eventData?.pilots[`Bia|${TRACK}|${CAR}`].bestLapTime, 91000);
+  assert.equal(eventData?.journalSeq, 2);
+  assert.equal((await journal.readAll()).size, 0);
+});
+
+test("replay recria um evento que só existe no journal", async () => {
+  const event = "journal-only";
+  const journal = new EventJournal(join(dataDir, "journal"));
+  await journal.append(event, entry(event, 1, "Caio", 88000));
+  invalidateCache();
+
+  await replayJournals();
+
+  const eventData = await getEventData(event);
+  assert.equal(eventData?.pilots[`Caio|${TRACK}|${CAR}`].bestLapTime, 88000);
+  assert.equal((await journal.readAll()).size, 0);
+});
+
+test("seq continua depois das entradas pendentes quando o evento é recarregado", async () => {
+  const event = "reload-seq";
+  const frame = (bestLap: number) =>
+    ({
+      simNum: 1,
+      "pilot-name": "Ana",
+      car: CAR,
+      track: TRACK,
+      event,
+      bestLap,
+    }) as RawSimulatorData;
+
+  await processBestLap(frame(90000));
+  await flushPendingWrites();
+  await processBestLap(frame(89000));
+
+  // Reload antes do debounce: o arquivo ainda tem journalSeq 1
+  await reloadEventData(event);
+  assert.equal((await getEventData(event))?.journalSeq, 1);
+
+  await processBestLap(frame(88000));
+  assert.equal((await getEventData(event))?.journalSeq, 3);
+
+  const journal = new EventJournal(join(dataDir, "journal"));
+  assert.deepEqual(
+    (await journal.readAll()).get(event)?.map((e) => e.seq),
+    [2, 3]
+  );
+});
@@ -0,0 +1,74 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { rm } from "fs/promises";
+import { startTestServer, useTempDataDir } from "./helpers.js";
+import type { TestServer } from "./helpers.js";
+
+const dataDir = await useTempDataDir("json-body");
+
+let server: TestServer;
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+const ENDPOINTS: [string, string][] = [
+  ["PUT", "/events/etapa-1/settings"],
+  ["POST", "/events/etapa-1"],
+  ["PUT", "/active-event"],
+  ["POST", "/active-event/schedule"],
+  ["POST", "/events/etapa-1/pilots/Ana/rename"],
+  ["POST", "/recordings/start"],
+  ["POST", "/replay/seek"],
+];
+
+test("body que não é um objeto JSON responde 400 em todos os endpoints", async () => {
+  for (const [method, path] of ENDPOINTS) {
+    for (const body of ["{inválido", "null", "[1, 2]", "42"]) {
+      const res = await server.request(method, path, body);
+      assert.equal(res.status, 400, `${method} ${path} ${body}`);
+      const json = (await res.json()) as { error: string };
+      assert.equal(json.error, "JSON inválido", `${method} ${path} ${body}`);
+    }
+  }
+});
+
+test("campos com tipo errado respondem 400 com a mensagem do campo", async () => {
+  const cases: [string, string, unknown, string][] = [
+    [
+      "PUT",
+      "/events/etapa-1/settings",
+      { countInvalidLaps: "sim" },
+      "Campo 'countInvalidLaps' deve ser boolean",
+    ],
+    [
+      "POST",
+      "/events/etapa-1",
+      { allowedCars: [1] },
+      "Campo 'allowedCars' deve ser uma lista de strings",
+    ],
+    [
+      "PUT",
+      "/active-event",
+      { event: 3 },
+      "Campo 'event' deve ser um nome ou null",
+    ],
+    [
+      "POST",
+      "/recordings/start",
+      { name: 1 },
+      "Campo 'name' deve ser uma string",
+    ],
+  ];
+
+  for (const [method, path, body, error] of cases) {
+    const res = await server.request(method, path, body);
+    assert.equal(res.status, 400, `${method} ${path}`);
+    assert.equal(((await res.json()) as { error: string }).error, error);
+  }
+});
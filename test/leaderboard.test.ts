@@ -0,0 +1,95 @@
+import { after, before, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { rm } from "fs/promises";
+import { useTempDataDir } from "./helpers.js";
+import type { RawSimulatorData } from "../src/types.js";
+
+const dataDir = await useTempDataDir("leaderboard");
+
+const { processBestLap, getLeaderboard, flushPendingWrites } =
+  await import("../src/best-lap-tracker.js");
+
+const EVENT = "etapa-ranking";
+
+const frame = (
+  pilot: string,
+  track: string,
+  car: string,
+  bestLap: number
+): RawSimulatorData =>
+  ({
+    simNum: 1,
+    "pilot-name": pilot,
+    car,
+    track,
+    event: EVENT,
+    bestLap,
+    lapData: { lapTime: bestLap, sectorTimes: [] as number[], isValid: true },
+  }) as RawSimulatorData;
+
+mock.timers.enable({ apis: ["Date"], now: Date.now() });
+
+before(async () => {
+  const laps: [string, string, string, number][] = [
+    ["Ana", "Interlagos", "Porsche", 90000],
+    ["Bia", "Interlagos", "Porsche", 91000],
+    ["Caio", "Interlagos", "Ferrari", 89000],
+    ["Duda", "Interlagos", "Ferrari", 89500],
+    ["Ana", "Spa", "Porsche", 140000],
+  ];
+  for (const lap of laps) {
+    await processBestLap(frame(...lap));
+    mock.timers.tick(10_000);
+  }
+});
+
+after(async () => {
+  mock.timers.reset();
+  await flushPendingWrites();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+const summarize = (entries: { position: number; pilotName: string }[]) =>
+  entries.map(({ position, pilotName }) => `${position} ${pilotName}`);
+
+test("sem filtros cada combinação pista + carro tem o próprio ranking", async () => {
+  const leaderboard = await getLeaderboard(EVENT);
+  assert.equal(leaderboard?.total, 5);
+
+  const byCombination = new Map<string, string[]>();
+  for (const entry of leaderboard!.entries) {
+    const key = `${entry.track}|${entry.car}`;
+    byCombination.set(key, [
+      ...(byCombination.get(key) ?? []),
+      `${entry.position} ${entry.pilotName} +${entry.gapToLeader}`,
+    ]);
+  }
+
+  assert.deepEqual(Object.fromEntries(byCombination), {
+    "Interlagos|Porsche": ["1 Ana +0", "2 Bia +1000"],
+    "Interlagos|Ferrari": ["1 Caio +0", "2 Duda +500"],
+    "Spa|Porsche": ["1 Ana +0"],
+  });
+});
+
+test("filtro por pista ranqueia cada carro separadamente", async () => {
+  const leaderboard = await getLeaderboard(EVENT, { track: "Interlagos" });
+  assert.equal(leaderboard?.total, 4);
+  assert.deepEqual(
+    leaderboard!.entries
+      .filter((entry) => entry.car === "Ferrari")
+      .map((entry) => entry.position),
+    [1, 2]
+  );
+});
+
+test("filtro por pista e carro pagina dentro da combinação", async () => {
+  const leaderboard = await getLeaderboard(EVENT, {
+    track: "Interlagos",
+    car: "Porsche",
+    offset: 1,
+    limit: 1,
+  });
+  assert.equal(leaderboard?.total, 2);
+  assert.deepEqual(summarize(leaderboard!.entries), ["2 Bia"]);
+});
@@ -0,0 +1,174 @@
+import { after, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { RawSimulatorData } from "../src/types.js";
+
+// O rastreador lê DATA_DIR ao ser importado: dados do teste em um temporário
+const dataDir = await mkdtemp(join(tmpdir(), "record-edits-"));
+process.env.DATA_DIR = dataDir;
+process.env.LOG_LEVEL ??= "error";
+
+const {
+  processBestLap,
+  deletePilotRecords,
+  renamePilot,
+  overrideBestLap,
+  getEventData,
+  getPilotLaps,
+  flushPendingWrites,
+} = await import("../src/best-lap-tracker.js");
+
+const TRACK = "Interlagos";
+const CAR = "Porsche 911 GT3";
+
+const frame = (
+  event: string,
+  pilot: string,
+  bestLap: number
+): RawSimulatorData =>
+  ({
+    simNum: 1,
+    "pilot-name": pilot,
+    car: CAR,
+    track: TRACK,
+    event,
+    bestLap,
+    lapData: { lapTime: bestLap, sectorTimes: [] as number[], isValid: true },
+  }) as RawSimulatorData;
+
+const recordOf = async (event: string, pilot: string) =>
+  (await getEventData(event))?.pilots[`${pilot}|${TRACK}|${CAR}`];
+
+// Frames repetidos do mesmo tempo são ignorados por alguns segundos
+// (throttling): o relógio avança entre um frame e outro
+mock.timers.enable({ apis: ["Date"], now: Date.now() });
+const nextFrame = () => mock.timers.tick(10_000);
+
+after(async () => {
+  mock.timers.reset();
+  await flushPendingWrites();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+test("registro removido não volta com o mesmo bestLap do simulador", async () => {
+  const event = "delete-tombstone";
+  await processBestLap(frame(event, "Ana", 90000));
+
+  const result = await deletePilotRecords(event, "Ana");
+  assert.equal(result.error, undefined);
+  assert.equal(await recordOf(event, "Ana"), undefined);
+
+  nextFrame();
+  assert.equal(await processBestLap(frame(event, "Ana", 90000)), null);
+  assert.equal(await recordOf(event, "Ana"), undefined);
+
+  nextFrame();
+  assert.ok(await processBestLap(frame(event, "Ana", 89000)));
+  assert.equal((await recordOf(event, "Ana"))?.bestLapTime, 89000);
+  assert.deepEqual((await getEventData(event))?.deletedRecords, {});
+});
+
+test("correção só é substituída por uma volta nova mais rápida", async () => {
+  const event = "override-sticky";
+  await processBestLap(frame(event, "Bia", 90000));
+
+  // Penalidade: tempo corrigido mais lento que o reportado pelo simulador
+  const result = await overrideBestLap(event, "Bia", {
+    bestLapTime: 92000,
+    reason: "Corte de pista",
+  });
+  assert.equal(result.error, undefined);
+
+  nextFrame();
+  assert.equal(await processBestLap(frame(event, "Bia", 90000)), null);
+  assert.equal((await recordOf(event, "Bia"))?.bestLapTime, 92000);
+
+  nextFrame();
+  assert.ok(await processBestLap(frame(event, "Bia", 89500)));
+  const record = await recordOf(event, "Bia");
+  assert.equal(record?.bestLapTime, 89500);
+  assert.equal(record?.override, undefined);
+});
+
+test("renomear mantém o histórico e direciona o nome antigo", async () => {
+  const event = "rename-alias";
+  await processBestLap(frame(event, "Joao", 90000));
+
+  const result = await renamePilot(event, "Joao", "João");
+  assert.equal(result.error, undefined);
+  assert.equal(await recordOf(event, "Joao"), undefined);
+  assert.equal((await recordOf(event, "João"))?.bestLapTime, 90000);
+
+  nextFrame();
+  await processBestLap(frame(event, "Joao", 88000));
+  assert.equal((await recordOf(event, "João"))?.bestLapTime, 88000);
+  assert.deepEqual(
+    await getPilotLaps(event, "Joao"),
+    await getPilotLaps(event, "João")
+  );
+});
+
+test("falha na auditoria não aplica a edição", async () => {
+  const event = "audit-failure";
+  await processBestLap(frame(event, "Caio", 90000));
+
+  const changes: unknown[] = [];
+  await assert.rejects(
+    overrideBestLap(
+      event,
+      "Caio",
+      { bestLapTime: 95000, reason: "Teste" },
+      async (change) => {
+        changes.push(change);
+        throw new Error("disco cheio");
+      }
+    ),
+    /disco cheio/
+  );
+
+  assert.equal(changes.length, 1);
+  const record = await recordOf(event, "Caio");
+  assert.equal(record?.bestLapTime, 90000);
+  assert.equal(record?.override, undefined);
+});
+
+test("edição de piloto inexistente retorna not-found", async () => {
+  const event = "missing-pilot";
+  await processBestLap(frame(event, "Duda", 90000));
+
+  const result = await deletePilotRecords(event, "Ninguém");
+  assert.equal(result.error !== undefined && result.code, "not-found");
+});
+
+test("volta recebida durante a auditoria entra depois da edição auditada", async () => {
+  const event = "audit-concurrent";
+  await processBestLap(frame(event, "Eva", 90000));
+
+  let releaseAudit!: () => void;
+  const audited: unknown[] = [];
+  const editing = deletePilotRecords(event, "Eva", {}, async (change) => {
+    audited.push(change);
+    await new Promise<void>((resolve) => (releaseAudit = resolve));
+  });
+
+  // Espera a auditoria começar antes de enviar a volta
+  while (audited.length === 0) await new Promise(setImmediate);
+  nextFrame();
+  const lap = processBestLap(frame(event, "Eva", 85000));
+  await new Promise(setImmediate);
+  assert.equal((await recordOf(event, "Eva"))?.bestLapTime, 90000);
+
+  releaseAudit();
+  const result = await editing;
+  assert.equal(result.error, undefined);
+  assert.deepEqual(audited, [{ before: result.before, after: result.after }]);
+  assert.equal(
+    (result.before as { bestLapTime: number }[])[0].bestLapTime,
+    90000
+  );
+
+  assert.ok(await lap);
+  assert.equal((await recordOf(event, "Eva"))?.bestLapTime, 85000);
+});
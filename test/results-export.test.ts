@@ -0,0 +1,213 @@
+import { after, before, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { rm } from "fs/promises";
+import { startTestServer, useTempDataDir } from "./helpers.js";
+import type { TestServer } from "./helpers.js";
+import {
+  resultsToCsv,
+  resultsToHtml,
+  resultsToJson,
+  resultsToMultipartCsv,
+} from "../src/results-export.js";
+import type {
+  EventResults,
+  LeaderboardEntry,
+  RawSimulatorData,
+} from "../src/types.js";
+
+const dataDir = await useTempDataDir("results-export");
+
+const { processBestLap, flushPendingWrites } =
+  await import("../src/best-lap-tracker.js");
+
+const entry = (
+  position: number,
+  pilotName: string,
+  bestLapTime: number,
+  gapToLeader: number
+): LeaderboardEntry => ({
+  position,
+  pilotName,
+  bestLapTime,
+  gapToLeader,
+  gapToAhead: gapToLeader,
+  lapCount: 3,
+  car: "Porsche 911 GT3",
+  track: "Interlagos",
+  simNum: position,
+  timestamp: "2025-11-24T12:34:56.789Z",
+});
+
+const results = (eventName: string, entries: LeaderboardEntry[]) =>
+  ({
+    event: {
+      eventName,
+      status: "open",
+      active: false,
+      metadata: {},
+      createdAt: "2025-11-24T12:00:00.000Z",
+      lastUpdated: "2025-11-24T12:00:00.000Z",
+      records: entries.length,
+    },
+    entries,
+  }) as EventResults;
+
+const csvRows = (csv: string) =>
+  csv
+    .replace(/^\uFEFF/, "")
+    .trim()
+    .split("\r\n");
+
+let server: TestServer;
+
+before(async () => {
+  mock.timers.enable({ apis: ["Date"], now: Date.now() });
+  for (const [pilot, bestLap] of [
+    ["Ana", 85234],
+    ["Bia", 85710],
+  ] as const) {
+    await processBestLap({
+      simNum: 1,
+      "pilot-name": pilot,
+      car: "Porsche 911 GT3",
+      track: "Interlagos",
+      event: "etapa-export",
+      bestLap,
+    } as RawSimulatorData);
+    mock.timers.tick(10_000);
+  }
+  mock.timers.reset();
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server.close();
+  await flushPendingWrites();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+test("CSV tem BOM, cabeçalho e uma linha por piloto com tempos formatados", () => {
+  const csv = resultsToCsv(
+    results("etapa-1", [entry(1, "Ana", 85234, 0), entry(2, "Bia", 85710, 476)])
+  );
+
+  assert.ok(csv.startsWith("\uFEFF"));
+  const [header, first, second] = csvRows(csv);
+  assert.ok(header.startsWith("Evento,Pista,Carro,Posição,Piloto"));
+  assert.equal(
+    first,
+    "etapa-1,Interlagos,Porsche 911 GT3,1,Ana,1:25.234,85234,,3,1,2025-11-24T12:34:56.789Z,sim"
+  );
+  assert.ok(second.includes(",1:25.710,85710,+0.476,"));
+});
+
+test("CSV neutraliza fórmulas e escapa aspas e vírgulas", () => {
+  const names = [
+    '=HYPERLINK("http://x","y")',
+    "+SOMA(A1)",
+    "-2+3",
+    "@cmd",
+    "\tTab",
+    "Silva, João",
+  ];
+  const csv = resultsToCsv(
+    results(
+      "=evento",
+      names.map((name, i) => entry(i + 1, name, 90000 + i, i))
+    )
+  );
+
+  const pilots = csvRows(csv)
+    .slice(1)
+    .map((row) => row.split(",Porsche 911 GT3,")[1]);
+  assert.deepEqual(pilots, [
+    `1,"'=HYPERLINK(""http://x"",""y"")",1:30.000,90000,,3,1,2025-11-24T12:34:56.789Z,sim`,
+    "2,'+SOMA(A1),1:30.001,90001,+0.001,3,2,2025-11-24T12:34:56.789Z,sim",
+    "3,'-2+3,1:30.002,90002,+0.002,3,3,2025-11-24T12:34:56.789Z,sim",
+    "4,'@cmd,1:30.003,90003,+0.003,3,4,2025-11-24T12:34:56.789Z,sim",
+    "5,'\tTab,1:30.004,90004,+0.004,3,5,2025-11-24T12:34:56.789Z,sim",
+    '6,"Silva, João",1:30.005,90005,+0.005,3,6,2025-11-24T12:34:56.789Z,sim',
+  ]);
+  assert.ok(csvRows(csv)[1].startsWith("'=evento,"));
+});
+
+test("JSON inclui tempos formatados e HTML escapa os nomes", () => {
+  const data = results("etapa-1", [
+    entry(1, "<b>Ana</b>", 85234, 0),
+    entry(2, "Bia", 85710, 476),
+  ]);
+
+  const json = resultsToJson(data) as {
+    entries: { bestLap: string; gap: string }[];
+  };
+  assert.deepEqual(
+    json.entries.map(({ bestLap, gap }) => [bestLap, gap]),
+    [
+      ["1:25.234", ""],
+      ["1:25.710", "+0.476"],
+    ]
+  );
+
+  const html = resultsToHtml(data);
+  assert.ok(html.includes("<h2>Interlagos — Porsche 911 GT3</h2>"));
+  assert.ok(html.includes("&lt;b&gt;Ana&lt;/b&gt;"));
+  assert.ok(!html.includes("<b>Ana</b>"));
+});
+
+test("multipart tem uma parte CSV por evento e o fechamento", () => {
+  const body = resultsToMultipartCsv(
+    [results("Etapa 1", [entry(1, "Ana", 85234, 0)]), results("Etapa 2", [])],
+    "limite"
+  );
+
+  const parts = body.split("--limite");
+  assert.equal(parts.length, 4);
+  assert.ok(parts[1].includes('filename="etapa-1-resultados.csv"'));
+  assert.ok(parts[2].includes('filename="etapa-2-resultados.csv"'));
+  assert.equal(parts[3], "--\r\n");
+});
+
+test("GET /events/:event/export responde CSV, JSON e HTML", async () => {
+  const csv = await server.request("GET", "/events/etapa-export/export");
+  assert.equal(csv.status, 200);
+  assert.equal(
+    csv.headers.get("content-disposition"),
+    'attachment; filename="etapa-export-resultados.csv"'
+  );
+  assert.equal(csvRows(await csv.text()).length, 3);
+
+  const json = await server.request(
+    "GET",
+    "/events/etapa-export/export?format=json"
+  );
+  const body = (await json.json()) as { entries: { pilotName: string }[] };
+  assert.deepEqual(
+    body.entries.map((e) => e.pilotName),
+    ["Ana", "Bia"]
+  );
+
+  const html = await server.request(
+    "GET",
+    "/events/etapa-export/export?format=html"
+  );
+  assert.match(html.headers.get("content-type") ?? "", /^text\/html/);
+
+  const invalid = await server.request(
+    "GET",
+    "/events/etapa-export/export?format=xls"
+  );
+  assert.equal(invalid.status, 400);
+});
+
+test("GET /export/events responde multipart/mixed", async () => {
+  const res = await server.request("GET", "/export/events");
+  assert.equal(res.status, 200);
+
+  const boundary = /boundary=(.+)$/.exec(
+    res.headers.get("content-type") ?? ""
+  )?.[1];
+  assert.ok(boundary);
+  const body = await res.text();
+  assert.ok(body.includes('filename="etapa-export-resultados.csv"'));
+  assert.ok(body.endsWith(`--${boundary}--\r\n`));
+});
@@ -0,0 +1,122 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { validateRawSimulatorData } from "../src/schema.js";
+import type { SchemaOptions } from "../src/schema.js";
+
+const frame = {
+  simNum: 1,
+  "pilot-name": "João Silva",
+  car: "Porsche 911 GT3",
+  track: "Interlagos",
+  lapData: { lapTime: 85234, sectorTimes: [28000, 29000], isValid: true },
+  currentLap: 3,
+  laps: 10,
+  speedNow: 180,
+  rpm: 7000,
+  maxRpm: 9000,
+  gear: 4,
+  gas: 0.8,
+  brake: 0,
+  fuel: 40,
+  maxFuel: 100,
+  position: 1,
+  sessionTimeLeft: 600000,
+};
+
+const options = (mode: SchemaOptions["mode"]): SchemaOptions => ({
+  mode,
+  requireTelemetry: true,
+});
+
+test("aceita um frame válido sem issues", () => {
+  const result = validateRawSimulatorData(frame, options("reject"));
+  assert.equal(result.ok, true);
+  assert.deepEqual(result.issues, []);
+});
+
+test("reject recusa string numérica", () => {
+  const result = validateRawSimulatorData(
+    { ...frame, speedNow: "180" },
+    options("reject")
+  );
+  assert.equal(result.ok, false);
+  assert.equal(result.issues[0].path, "speedNow");
+});
+
+test("coerce converte strings e limita faixas", () => {
+  const result = validateRawSimulatorData(
+    {
+      ...frame,
+      speedNow: "180",
+      gas: 1.5,
+      lapData: { ...frame.lapData, isValid: "true" },
+    },
+    options("coerce")
+  );
+  assert.ok(result.ok);
+  assert.equal(result.data.speedNow, 180);
+  assert.equal(result.data.gas, 1);
+  assert.equal(result.data.lapData.isValid, true);
+  assert.deepEqual(
+    result.issues.map((issue) => [issue.path, issue.action]),
+    [
+      ["lapData.isValid", "coerced"],
+      ["speedNow", "coerced"],
+      ["gas", "coerced"],
+    ]
+  );
+});
+
+test("coerce rejeita valores que não podem ser convertidos", () => {
+  const result = validateRawSimulatorData(
+    { ...frame, speedNow: "rápido" },
+    options("coerce")
+  );
+  assert.equal(result.ok, false);
+  assert.deepEqual(result.issues.map((issue) => issue.path), ["speedNow"]);
+});
+
+test("strip remove telemetria inválida, mas nunca campos críticos", () => {
+  const stripped = validateRawSimulatorData(
+    { ...frame, speedNow: "rápido" },
+    options("strip")
+  );
+  assert.ok(stripped.ok);
+  assert.equal("speedNow" in stripped.data, false);
+  assert.equal(stripped.issues[0].action, "stripped");
+
+  const critical = validateRawSimulatorData(
+    { ...frame, simNum: "x" },
+    options("strip")
+  );
+  assert.equal(critical.ok, false);
+});
+
+test("strip rejeita lapData.isValid inválido em vez de contar a volta", () => {
+  for (const isValid of ["não", null]) {
+    const result = validateRawSimulatorData(
+      { ...frame, lapData: { ...frame.lapData, isValid } },
+      options("strip")
+    );
+    assert.equal(result.ok, false);
+    assert.deepEqual(
+      result.issues.map((issue) => issue.path),
+      ["lapData.isValid"]
+    );
+  }
+});
+
+test("telemetria é opcional quando requireTelemetry = false", () => {
+  const result = validateRawSimulatorData(
+    { simNum: "2", "pilot-name": "A", car: "c", track: "t" },
+    { mode: "coerce", requireTelemetry: false }
+  );
+  assert.ok(result.ok);
+  assert.equal(result.data.simNum, 2);
+});
+
+test("recusa dados que não são objeto", () => {
+  for (const raw of [null, [], "frame", 1]) {
+    assert.equal(validateRawSimulatorData(raw, options("coerce")).ok, false);
+  }
+});
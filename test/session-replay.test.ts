@@ -0,0 +1,134 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { setTimeout as sleep } from "timers/promises";
+import { SessionReplayer } from "../src/session-replay.js";
+import type { RawSimulatorData, ReplayState } from "../src/types.js";
+
+process.env.LOG_LEVEL ??= "error";
+
+const START = Date.parse("2025-11-24T12:00:00.000Z");
+
+let dir: string;
+let parts: string[];
+
+/**
+ * Gravação em duas partes com um update por segundo (posições 0 a 5000 ms)
+ */
+before(async () => {
+  dir = await mkdtemp(join(tmpdir(), "session-replay-"));
+  const line = (position: number) =>
+    JSON.stringify({
+      receivedAt: new Date(START + position).toISOString(),
+      simNum: 1,
+      data: { simNum: 1, "pilot-name": "Ana", speedNow: position },
+    }) + "\n";
+
+  parts = [join(dir, "part-0001.ndjson"), join(dir, "part-0002.ndjson")];
+  await writeFile(parts[0], [0, 1000, 2000].map(line).join(""));
+  await writeFile(parts[1], [3000, 4000, 5000].map(line).join(""));
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+/**
+ * Replayer que registra as posições reenviadas e os estados notificados
+ */
+function createReplayer() {
+  const positions: number[] = [];
+  const states: ReplayState[] = [];
+  let onFinish: () => void = () => {};
+  const finished = new Promise<void>((resolve) => (onFinish = resolve));
+
+  const replayer = new SessionReplayer(
+    (data: RawSimulatorData) => positions.push(data.speedNow),
+    (state) => {
+      states.push(state);
+      if (state.status === "finished" || state.status === "stopped") {
+        onFinish();
+      }
+    }
+  );
+  return { replayer, positions, states, finished };
+}
+
+test("reenvia todas as partes em ordem e termina", async () => {
+  const { replayer, positions, states, finished } = createReplayer();
+  replayer.start("rec", parts, { speed: 10, muteLive: false, from: 0 });
+
+  await finished;
+  assert.deepEqual(positions, [0, 1000, 2000, 3000, 4000, 5000]);
+  assert.equal(states.at(-1)?.status, "finished");
+  assert.equal(states.at(-1)?.messages, 6);
+  assert.equal(replayer.getState(), null);
+});
+
+test("from descarta updates anteriores à posição", async () => {
+  const { replayer, positions, finished } = createReplayer();
+  replayer.start("rec", parts, { speed: 10, muteLive: false, from: 3500 });
+
+  await finished;
+  assert.deepEqual(positions, [4000, 5000]);
+});
+
+test("pause retém os updates até resume", async () => {
+  const { replayer, positions, finished } = createReplayer();
+  replayer.start("rec", parts, { speed: 10, muteLive: false, from: 0 });
+  const paused = replayer.pause();
+  assert.equal(paused.state?.status, "paused");
+
+  await sleep(300);
+  assert.deepEqual(positions, []);
+  assert.equal(replayer.getState()?.position, paused.state?.position);
+
+  replayer.resume();
+  await finished;
+  assert.deepEqual(positions, [0, 1000, 2000, 3000, 4000, 5000]);
+});
+
+test("seek salta para a posição pedida, inclusive entre partes", async () => {
+  const { replayer, positions, finished } = createReplayer();
+  replayer.start("rec", parts, { speed: 1, muteLive: false, from: 0 });
+
+  await sleep(100);
+  const position = replayer.seek(4000).state?.position ?? 0;
+  assert.ok(position >= 4000 && position < 4100);
+
+  await finished;
+  assert.deepEqual(positions, [0, 4000, 5000]);
+});
+
+test("seek para trás reenvia a partir da posição", async () => {
+  const { replayer, positions, finished } = createReplayer();
+  replayer.start("rec", parts, { speed: 10, muteLive: false, from: 4000 });
+
+  await sleep(50);
+  replayer.seek(1500);
+
+  await finished;
+  assert.deepEqual(positions, [4000, 2000, 3000, 4000, 5000]);
+});
+
+test("stop interrompe e comandos sem replay retornam 409", async () => {
+  const { replayer, positions, finished } = createReplayer();
+  replayer.start("rec", parts, { speed: 1, muteLive: false, from: 0 });
+  const second = replayer.start("rec", parts, {
+    speed: 1,
+    muteLive: false,
+    from: 0,
+  });
+  assert.equal(second.error !== undefined && second.code, 409);
+
+  await sleep(100);
+  assert.equal(replayer.stop().state?.status, "stopped");
+  await finished;
+  assert.deepEqual(positions, [0]);
+
+  for (const result of [replayer.pause(), replayer.resume(), replayer.stop()]) {
+    assert.equal(result.error !== undefined && result.code, 409);
+  }
+});
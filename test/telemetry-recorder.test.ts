@@ -0,0 +1,86 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { TelemetryRecorder } from "../src/telemetry-recorder.js";
+import type { RawSimulatorData } from "../src/types.js";
+
+const dir = await mkdtemp(join(tmpdir(), "telemetry-recorder-"));
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+const update = (n: number): RawSimulatorData =>
+  ({
+    simNum: 1,
+    "pilot-name": "Ana",
+    car: "Porsche 911 GT3",
+    // Pista longa: linhas de ~300 bytes
+    track: `Interlagos ${"x".repeat(200)}`,
+    lapData: { lapTime: n, sectorTimes: [] as number[], isValid: true },
+  }) as RawSimulatorData;
+
+async function recordBurst(recorder: TelemetryRecorder, count: number) {
+  const started = await recorder.start({});
+  assert.equal(started.error, undefined);
+  for (let n = 0; n < count; n++) recorder.record(update(n));
+  return (await recorder.stop())!;
+}
+
+async function countLines(recordingDir: string, files: string[]) {
+  let lines = 0;
+  for (const file of files) {
+    const content = await readFile(join(recordingDir, file), "utf-8");
+    lines += content.split("\n").filter(Boolean).length;
+  }
+  return lines;
+}
+
+test("rajada maior que o buffer do stream é gravada sem descartes", async () => {
+  const recorder = new TelemetryRecorder(join(dir, "burst"), 50 * 1024 * 1024);
+  const summary = await recordBurst(recorder, 1000);
+
+  assert.equal(summary.messages, 1000);
+  assert.equal(summary.dropped, undefined);
+  assert.equal(recorder.droppedUpdates, 0);
+  assert.equal(
+    await countLines(join(dir, "burst", summary.id), summary.files),
+    1000
+  );
+});
+
+test("acima do limite em memória os updates são descartados e contados", async () => {
+  const recorder = new TelemetryRecorder(
+    join(dir, "limited"),
+    50 * 1024 * 1024,
+    10 * 1024
+  );
+  const summary = await recordBurst(recorder, 1000);
+
+  assert.ok(summary.dropped! > 0);
+  assert.equal(summary.messages + summary.dropped!, 1000);
+  assert.equal(recorder.droppedUpdates, summary.dropped);
+  assert.equal(
+    await countLines(join(dir, "limited", summary.id), summary.files),
+    summary.messages
+  );
+
+  // A contagem total soma as gravações seguintes
+  const next = await recordBurst(recorder, 1000);
+  assert.equal(recorder.droppedUpdates, summary.dropped! + next.dropped!);
+});
+
+test("o limite vale para as partes encerradas pela rotação", async () => {
+  const recorder = new TelemetryRecorder(
+    join(dir, "rotation"),
+    4 * 1024,
+    10 * 1024
+  );
+  const summary = await recordBurst(recorder, 1000);
+
+  assert.ok(summary.files.length > 1);
+  assert.equal(summary.messages + summary.dropped!, 1000);
+  assert.ok(summary.messages * 250 < 20 * 1024);
+});